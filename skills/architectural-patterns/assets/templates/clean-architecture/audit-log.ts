@@ -0,0 +1,164 @@
+/**
+ * Clean Architecture: Audit Log (Application Layer)
+ * Who changed which user, when, from what to what - Append-only, written in the same unit of work
+ */
+
+import { User } from './entities';
+import { Result, ValidationFailedError, err, ok } from './errors';
+import { Actor } from './authorization';
+import { UseCase } from './use-cases';
+
+export type AuditAction =
+  | 'user.created'
+  | 'user.updated'
+  | 'user.deleted'
+  | 'user.restored'
+  | 'user.erased';
+
+export const AUDIT_ACTIONS: readonly AuditAction[] = [
+  'user.created',
+  'user.updated',
+  'user.deleted',
+  'user.restored',
+  'user.erased',
+];
+
+// Plain copy of a user's stored state; dates as ISO-8601 so entries serialise unchanged
+export interface UserSnapshot {
+  id: string;
+  name: string;
+  email: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+  version: number;
+}
+
+export interface AuditEntry {
+  // Time-ordered: entries sort by id in the order they were appended
+  id: string;
+  userId: string;
+  tenantId: string;
+  // Null when the change was made without a signed-in actor (e.g. a system job)
+  actorId: string | null;
+  action: AuditAction;
+  // Null before a create; after is the state that was saved
+  before: UserSnapshot | null;
+  after: UserSnapshot | null;
+  occurredAt: Date;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id'>;
+
+export interface AuditLogQuery {
+  limit: number;
+  // Undefined reads every tenant: for operational replays, never for a caller's request
+  tenantId?: string;
+  userId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  // Inclusive lower and exclusive upper bound on occurredAt
+  from?: Date;
+  to?: Date;
+  // Id of the last entry on the previous page
+  after?: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[];
+  hasMore: boolean;
+}
+
+// Replacement personal data for an erased user (see anonymisedIdentity in ./entities)
+export type RedactedIdentity = Pick<UserSnapshot, 'name' | 'email'>;
+
+// Audit Log Port: No update or delete - entries are only ever added.
+// The one sanctioned rewrite is redactUser, for the right to erasure: it replaces the
+// user's name and email in their entries' snapshots and keeps everything else as evidence.
+export interface IAuditLog {
+  append(entry: NewAuditEntry): Promise<void>;
+  query(query: AuditLogQuery): Promise<AuditLogPage>;
+  redactUser(userId: string, identity: RedactedIdentity): Promise<void>;
+}
+
+export function snapshotUser(user: User): UserSnapshot {
+  return {
+    id: user.id.value,
+    name: user.name,
+    email: user.email,
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+    deletedAt: user.deletedAt?.toISOString() ?? null,
+    version: user.version,
+  };
+}
+
+export function redactSnapshot(snapshot: UserSnapshot, identity: RedactedIdentity): UserSnapshot {
+  return { ...snapshot, name: identity.name, email: identity.email };
+}
+
+// Reference implementation for adapters that hold entries in memory
+export function matchesAuditQuery(entry: AuditEntry, query: AuditLogQuery): boolean {
+  return (
+    (query.tenantId === undefined || entry.tenantId === query.tenantId) &&
+    (query.userId === undefined || entry.userId === query.userId) &&
+    (query.actorId === undefined || entry.actorId === query.actorId) &&
+    (query.action === undefined || entry.action === query.action) &&
+    (query.from === undefined || entry.occurredAt.getTime() >= query.from.getTime()) &&
+    (query.to === undefined || entry.occurredAt.getTime() < query.to.getTime()) &&
+    (query.after === undefined || entry.id > query.after)
+  );
+}
+
+// Use Case: Query Audit Log (oldest first, keyset-paginated by entry id), within one tenant
+export interface QueryAuditLogRequest {
+  tenantId: string;
+  limit?: number;
+  cursor?: string;
+  userId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+  actor?: Actor;
+}
+
+export interface QueryAuditLogResponse {
+  entries: AuditEntry[];
+  nextCursor: string | null;
+}
+
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+const MAX_AUDIT_PAGE_SIZE = 200;
+
+export class QueryAuditLogUseCase
+  implements UseCase<QueryAuditLogRequest, QueryAuditLogResponse, ValidationFailedError>
+{
+  constructor(private auditLog: IAuditLog) {}
+
+  async execute(
+    request: QueryAuditLogRequest
+  ): Promise<Result<QueryAuditLogResponse, ValidationFailedError>> {
+    const limit = request.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+      return err(new ValidationFailedError(`Limit must be between 1 and ${MAX_AUDIT_PAGE_SIZE}`, 'limit'));
+    }
+    if (request.from && request.to && request.from.getTime() >= request.to.getTime()) {
+      return err(new ValidationFailedError('from must be earlier than to', 'from'));
+    }
+
+    const page = await this.auditLog.query({
+      limit,
+      tenantId: request.tenantId,
+      userId: request.userId,
+      actorId: request.actorId,
+      action: request.action,
+      from: request.from,
+      to: request.to,
+      after: request.cursor,
+    });
+
+    const last = page.entries[page.entries.length - 1];
+    return ok({ entries: page.entries, nextCursor: page.hasMore && last ? last.id : null });
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Clean Architecture: Authorization Policies (Application Layer)
+ * Who may do what to which user - Pure functions, testable without HTTP
+ */
+
+import { ForbiddenError, UnauthenticatedError } from './errors';
+
+export type Role = 'admin' | 'member' | 'auditor';
+
+export const ROLES: readonly Role[] = ['admin', 'member', 'auditor'];
+
+// Actor: The authenticated principal a request acts on behalf of.
+// Principals belong to one tenant, and everything they do is scoped to it.
+export interface Actor {
+  id: string;
+  roles: Role[];
+  tenantId: string;
+}
+
+export type UserAction =
+  | 'user:create'
+  | 'user:read'
+  | 'user:list'
+  | 'user:update'
+  | 'user:delete'
+  | 'user:restore'
+  | 'user:erase'
+  | 'user:export-data'
+  | 'user:change-password'
+  | 'audit:read'
+  | 'read-model:rebuild';
+
+const WRITE_ACTIONS: ReadonlySet<UserAction> = new Set([
+  'user:create',
+  'user:update',
+  'user:delete',
+  'user:restore',
+  'user:erase',
+  'read-model:rebuild',
+]);
+
+export interface AuthorizationRequest {
+  // Undefined when nobody is signed in
+  actor?: Actor;
+  action: UserAction;
+  // Id of the user acted upon, when there is one
+  targetUserId?: string;
+  // Tenant the request is scoped to; absent for operational, all-tenant commands
+  tenantId?: string;
+}
+
+// Policy: null allows the request; an UnauthenticatedError (nobody signed in, 401) or a
+// ForbiddenError (signed in but not allowed, 403) explains the refusal
+export interface AuthorizationPolicy {
+  check(request: AuthorizationRequest): ForbiddenError | UnauthenticatedError | null;
+}
+
+export function hasRole(actor: Actor | undefined, role: Role): boolean {
+  return actor?.roles.includes(role) ?? false;
+}
+
+export const authenticatedOnly: AuthorizationPolicy = {
+  check: ({ actor }) => (actor ? null : new UnauthenticatedError('Authentication is required')),
+};
+
+// No role reaches across tenants: a request is scoped to the actor's own
+export const ownTenantOnly: AuthorizationPolicy = {
+  check: ({ actor, tenantId }) =>
+    !actor || tenantId === undefined || actor.tenantId === tenantId
+      ? null
+      : new ForbiddenError('Actors may only act within their own tenant'),
+};
+
+// Members edit their own profile; admins edit anyone's
+export const selfEditOnly: AuthorizationPolicy = {
+  check: ({ actor, action, targetUserId }) =>
+    action !== 'user:update' || hasRole(actor, 'admin') || (actor && actor.id === targetUserId)
+      ? null
+      : new ForbiddenError('Users may only edit their own profile'),
+};
+
+export const adminCanDelete: AuthorizationPolicy = {
+  check: ({ actor, action }) =>
+    action !== 'user:delete' || hasRole(actor, 'admin')
+      ? null
+      : new ForbiddenError('Only admins may delete users'),
+};
+
+export const adminCanRestore: AuthorizationPolicy = {
+  check: ({ actor, action }) =>
+    action !== 'user:restore' || hasRole(actor, 'admin')
+      ? null
+      : new ForbiddenError('Only admins may restore users'),
+};
+
+export const adminCanErase: AuthorizationPolicy = {
+  check: ({ actor, action }) =>
+    action !== 'user:erase' || hasRole(actor, 'admin')
+      ? null
+      : new ForbiddenError('Only admins may erase users'),
+};
+
+// A data export holds everything about one person: that person or an admin
+export const selfOrAdminDataExport: AuthorizationPolicy = {
+  check: ({ actor, action, targetUserId }) =>
+    action !== 'user:export-data' || hasRole(actor, 'admin') || (actor && actor.id === targetUserId)
+      ? null
+      : new ForbiddenError('Users may only export their own data'),
+};
+
+// Nobody sets another person's password, admins included: it needs the current one anyway
+export const ownPasswordOnly: AuthorizationPolicy = {
+  check: ({ actor, action, targetUserId }) =>
+    action !== 'user:change-password' || (actor && actor.id === targetUserId)
+      ? null
+      : new ForbiddenError('Users may only change their own password'),
+};
+
+// The audit trail shows other users' data and who changed it: admins and auditors only
+export const auditTrailReaders: AuthorizationPolicy = {
+  check: ({ actor, action }) =>
+    action !== 'audit:read' || hasRole(actor, 'admin') || hasRole(actor, 'auditor')
+      ? null
+      : new ForbiddenError('Only admins and auditors may read the audit log'),
+};
+
+// Rebuilding empties the tenant's dashboards until the replay finishes: admins only
+export const adminCanRebuildReadModels: AuthorizationPolicy = {
+  check: ({ actor, action }) =>
+    action !== 'read-model:rebuild' || hasRole(actor, 'admin')
+      ? null
+      : new ForbiddenError('Only admins may rebuild read models'),
+};
+
+export const adminCanCreate: AuthorizationPolicy = {
+  check: ({ actor, action }) =>
+    action !== 'user:create' || hasRole(actor, 'admin')
+      ? null
+      : new ForbiddenError('Only admins may create users'),
+};
+
+// Auditors can see everything and change nothing, unless they also hold admin
+export const readOnlyAuditor: AuthorizationPolicy = {
+  check: ({ actor, action }) =>
+    !WRITE_ACTIONS.has(action) || !hasRole(actor, 'auditor') || hasRole(actor, 'admin')
+      ? null
+      : new ForbiddenError('Auditors have read-only access'),
+};
+
+// Every policy must allow; the first refusal wins
+export function allOf(...policies: AuthorizationPolicy[]): AuthorizationPolicy {
+  return {
+    check: (request) => {
+      for (const policy of policies) {
+        const refusal = policy.check(request);
+        if (refusal) return refusal;
+      }
+      return null;
+    },
+  };
+}
+
+export const DEFAULT_USER_POLICY: AuthorizationPolicy = allOf(
+  authenticatedOnly,
+  ownTenantOnly,
+  readOnlyAuditor,
+  adminCanCreate,
+  selfEditOnly,
+  adminCanDelete,
+  adminCanRestore,
+  adminCanErase,
+  selfOrAdminDataExport,
+  ownPasswordOnly,
+  auditTrailReaders,
+  adminCanRebuildReadModels
+);
@@ -0,0 +1,212 @@
+/**
+ * Clean Architecture: Bulk File Formats (Interface Adapters Layer)
+ * Streaming CSV (RFC 4180) and NDJSON readers/writers - Rows in, presenter DTOs out
+ */
+
+import { User } from './entities';
+import { ValidationFailedError, err, ok } from './errors';
+import { ParsedUserRow } from './bulk-users';
+import { CREATE_USER_REQUEST_SCHEMA, UserHttpResponse, UserPresenter } from './controllers';
+import { ObjectSchema, parseWithSchema } from './schema';
+
+export type BulkFormat = 'csv' | 'ndjson';
+
+export const BULK_FORMATS: readonly BulkFormat[] = ['csv', 'ndjson'];
+
+export const BULK_CONTENT_TYPES: Record<BulkFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+};
+
+// Files, sockets and fixtures all look like this: chunks split at arbitrary byte offsets
+export type TextSource = AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>;
+
+// Same field rules as POST /users; extra columns (e.g. from an earlier export) are ignored
+const IMPORT_ROW_SCHEMA = {
+  ...CREATE_USER_REQUEST_SCHEMA,
+  additionalProperties: true,
+} as const satisfies ObjectSchema;
+
+const EXPORT_COLUMNS: (keyof UserHttpResponse)[] = ['id', 'name', 'email', 'createdAt', 'updatedAt', 'version'];
+
+export function parseUserRows(source: TextSource, format: BulkFormat): AsyncIterable<ParsedUserRow> {
+  return format === 'csv' ? parseCsvUserRows(source) : parseNdjsonUserRows(source);
+}
+
+export function formatUsers(users: AsyncIterable<User>, format: BulkFormat): AsyncIterable<string> {
+  return format === 'csv' ? formatCsvUsers(users) : formatNdjsonUsers(users);
+}
+
+// CSV: the header row names the columns (any order, case-insensitive); name and email are required
+export async function* parseCsvUserRows(source: TextSource): AsyncIterable<ParsedUserRow> {
+  let columns: string[] | undefined;
+
+  for await (const record of csvRecords(decodeText(source))) {
+    if (record.error) {
+      yield { line: record.line, row: err(new ValidationFailedError(record.error)) };
+      continue;
+    }
+    if (record.fields.length === 1 && record.fields[0] === '') continue;
+
+    if (!columns) {
+      columns = record.fields.map((column) => column.trim().toLowerCase());
+      const missing = ['name', 'email'].filter((column) => !columns!.includes(column));
+      if (missing.length > 0) {
+        yield {
+          line: record.line,
+          row: err(new ValidationFailedError(`CSV header is missing column(s): ${missing.join(', ')}`)),
+        };
+        return;
+      }
+      continue;
+    }
+
+    if (record.fields.length !== columns.length) {
+      yield {
+        line: record.line,
+        row: err(
+          new ValidationFailedError(`Expected ${columns.length} columns, found ${record.fields.length}`)
+        ),
+      };
+      continue;
+    }
+
+    const values = Object.fromEntries(columns.map((column, index) => [column, record.fields[index]]));
+    yield { line: record.line, row: parseImportRow(values) };
+  }
+}
+
+// NDJSON: one JSON object per line; blank lines are skipped
+export async function* parseNdjsonUserRows(source: TextSource): AsyncIterable<ParsedUserRow> {
+  for await (const { line, text } of textLines(decodeText(source))) {
+    if (text.trim() === '') continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      yield { line, row: err(new ValidationFailedError('Line is not valid JSON')) };
+      continue;
+    }
+    yield { line, row: parseImportRow(value) };
+  }
+}
+
+function parseImportRow(value: unknown): ParsedUserRow['row'] {
+  const parsed = parseWithSchema<{ name: string; email: string }>(IMPORT_ROW_SCHEMA, value);
+  return parsed.ok ? ok({ name: parsed.value.name, email: parsed.value.email }) : parsed;
+}
+
+export async function* formatCsvUsers(users: AsyncIterable<User>): AsyncIterable<string> {
+  yield `${EXPORT_COLUMNS.join(',')}\r\n`;
+  for await (const user of users) {
+    const dto = UserPresenter.toHttpResponse(user);
+    yield `${EXPORT_COLUMNS.map((column) => csvField(dto[column])).join(',')}\r\n`;
+  }
+}
+
+export async function* formatNdjsonUsers(users: AsyncIterable<User>): AsyncIterable<string> {
+  for await (const user of users) {
+    yield `${JSON.stringify(UserPresenter.toHttpResponse(user))}\n`;
+  }
+}
+
+// Quote when needed; cells a spreadsheet would run as a formula get a leading apostrophe
+function csvField(value: string | number): string {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Decoder: Bytes may split a multi-byte character across chunks; a leading BOM is dropped
+async function* decodeText(source: TextSource): AsyncIterable<string> {
+  const decoder = new TextDecoder('utf-8');
+  let first = true;
+  for await (const chunk of source) {
+    let text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    if (first && text.length > 0) {
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+      first = false;
+    }
+    if (text) yield text;
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+async function* textLines(text: AsyncIterable<string>): AsyncIterable<{ line: number; text: string }> {
+  let buffer = '';
+  let line = 1;
+  for await (const chunk of text) {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      yield { line: line++, text: buffer.slice(0, newline).replace(/\r$/, '') };
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+  if (buffer) yield { line, text: buffer.replace(/\r$/, '') };
+}
+
+interface CsvRecord {
+  // Physical line the record starts on (quoted fields may span lines)
+  line: number;
+  fields: string[];
+  error?: string;
+}
+
+// RFC 4180 reader: quoted fields may contain commas, doubled quotes and line breaks
+async function* csvRecords(text: AsyncIterable<string>): AsyncIterable<CsvRecord> {
+  let state: 'start' | 'unquoted' | 'quoted' | 'quote' = 'start';
+  let fields: string[] = [];
+  let field = '';
+  let line = 1;
+  let recordLine = 1;
+
+  for await (const chunk of text) {
+    for (const char of chunk) {
+      if (state === 'quoted') {
+        if (char === '"') state = 'quote';
+        else {
+          field += char;
+          if (char === '\n') line++;
+        }
+        continue;
+      }
+      if (state === 'quote') {
+        if (char === '"') {
+          field += '"';
+          state = 'quoted';
+          continue;
+        }
+        // The quote closed the field; this character is read as unquoted input
+        state = 'unquoted';
+      }
+
+      if (char === '"' && state === 'start') {
+        state = 'quoted';
+      } else if (char === ',') {
+        fields.push(field);
+        field = '';
+        state = 'start';
+      } else if (char === '\n') {
+        fields.push(field);
+        yield { line: recordLine, fields };
+        fields = [];
+        field = '';
+        state = 'start';
+        recordLine = ++line;
+      } else if (char !== '\r') {
+        field += char;
+        state = 'unquoted';
+      }
+    }
+  }
+
+  if (state === 'quoted') {
+    yield { line: recordLine, fields: [], error: 'Quoted field is never closed' };
+  } else if (fields.length > 0 || field !== '' || state !== 'start') {
+    fields.push(field);
+    yield { line: recordLine, fields };
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Clean Architecture: Bulk Import/Export (Application Layer)
+ * Rows stream through the same registration rules as CreateUser - One report line per row
+ */
+
+import { User } from './entities';
+import { FieldError, Result, ValidationFailedError, ok } from './errors';
+import { Actor } from './authorization';
+import { Clock } from './clock';
+import { IdGenerator } from './id-generator';
+import {
+  CreateUserRequest,
+  CreateUserResponse,
+  IUnitOfWorkFactory,
+  IUserRepository,
+  UseCase,
+  registerUser,
+} from './use-cases';
+import { UserCursor, userSortKey } from './user-queries';
+
+// A row as read from the source file; malformed rows arrive already rejected
+export interface ParsedUserRow {
+  line: number;
+  row: Result<{ name: string; email: string }, ValidationFailedError>;
+}
+
+export interface ImportUsersRequest {
+  rows: AsyncIterable<ParsedUserRow>;
+  // Check every row against the registration rules without keeping anything
+  dryRun?: boolean;
+  tenantId: string;
+  actor?: Actor;
+}
+
+export interface AcceptedUserRow {
+  line: number;
+  userId: string;
+  email: string;
+}
+
+export interface RejectedUserRow {
+  line: number;
+  code: string;
+  reason: string;
+  errors?: FieldError[];
+}
+
+export interface ImportUsersReport {
+  dryRun: boolean;
+  total: number;
+  accepted: AcceptedUserRow[];
+  rejected: RejectedUserRow[];
+}
+
+// Use Case: Import Users.
+// Each row is its own CreateUser call, so one bad row never undoes the others.
+// A dry run replays the rules inside one unit of work that is always rolled back,
+// which also catches duplicate emails within the file itself.
+export class ImportUsersUseCase implements UseCase<ImportUsersRequest, ImportUsersReport, never> {
+  constructor(
+    private createUser: UseCase<CreateUserRequest, CreateUserResponse>,
+    private unitOfWork: IUnitOfWorkFactory,
+    private idGenerator: IdGenerator,
+    private clock: Clock
+  ) {}
+
+  async execute(request: ImportUsersRequest): Promise<Result<ImportUsersReport, never>> {
+    const report: ImportUsersReport = {
+      dryRun: request.dryRun ?? false,
+      total: 0,
+      accepted: [],
+      rejected: [],
+    };
+
+    if (!report.dryRun) {
+      await this.importRows(request, report, (createRequest) => this.createUser.execute(createRequest));
+      return ok(report);
+    }
+
+    const uow = await this.unitOfWork.begin();
+    try {
+      await this.importRows(request, report, async (createRequest) => {
+        const registered = await registerUser(uow.users, createRequest, this.clock);
+        return registered.ok
+          ? ok({ userId: registered.value.id.value, version: registered.value.version })
+          : registered;
+      });
+    } finally {
+      await uow.rollback();
+    }
+    return ok(report);
+  }
+
+  private async importRows(
+    request: ImportUsersRequest,
+    report: ImportUsersReport,
+    create: (request: CreateUserRequest) => Promise<Result<CreateUserResponse, { code: string; message: string }>>
+  ): Promise<void> {
+    for await (const { line, row } of request.rows) {
+      report.total++;
+      if (!row.ok) {
+        report.rejected.push(rejection(line, row.error));
+        continue;
+      }
+
+      const result = await create({
+        id: this.idGenerator.next(),
+        name: row.value.name,
+        email: row.value.email,
+        tenantId: request.tenantId,
+        actor: request.actor,
+      });
+
+      if (result.ok) {
+        report.accepted.push({ line, userId: result.value.userId, email: row.value.email });
+      } else {
+        report.rejected.push(rejection(line, result.error));
+      }
+    }
+  }
+}
+
+function rejection(line: number, error: { code: string; message: string }): RejectedUserRow {
+  const errors = error instanceof ValidationFailedError ? error.errors : [];
+  return {
+    line,
+    code: error.code,
+    reason: error.message,
+    ...(errors.length > 0 && { errors }),
+  };
+}
+
+export interface ExportUsersRequest {
+  pageSize?: number;
+  tenantId: string;
+  actor?: Actor;
+}
+
+const EXPORT_PAGE_SIZE = 500;
+
+// Use Case: Export Users (one tenant's).
+// Walks the repository page by page (oldest first), so memory stays flat for any table size.
+export class ExportUsersUseCase implements UseCase<ExportUsersRequest, AsyncIterable<User>, never> {
+  constructor(private userRepository: IUserRepository) {}
+
+  async execute(request: ExportUsersRequest): Promise<Result<AsyncIterable<User>, never>> {
+    return ok(this.pages(request.tenantId, request.pageSize ?? EXPORT_PAGE_SIZE));
+  }
+
+  private async *pages(tenantId: string, limit: number): AsyncIterable<User> {
+    let after: UserCursor | undefined;
+    for (;;) {
+      const page = await this.userRepository.list(tenantId, {
+        limit,
+        sortBy: 'createdAt',
+        sortOrder: 'asc',
+        after,
+      });
+      yield* page.users;
+
+      const last = page.users[page.users.length - 1];
+      if (!page.hasMore || !last) return;
+      after = { key: userSortKey(last, 'createdAt'), id: last.id.value };
+    }
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Clean Architecture: Caching Repository (Frameworks & Drivers Layer)
+ * Read-through decorator for IUserRepository - TTL, LRU bound, negative caching, hit/miss stats
+ */
+
+import { User, UserId } from './entities';
+import { FindUserOptions, IUnitOfWorkFactory, IUserRepository, UnitOfWork } from './use-cases';
+import { Clock, SystemClock } from './clock';
+import { UserListPage, UserListQuery } from './user-queries';
+
+export interface UserCacheOptions {
+  ttlMs?: number;
+  // How long "no such user" is remembered; 0 disables negative caching
+  negativeTtlMs?: number;
+  maxEntries?: number;
+  clock?: Clock;
+}
+
+export interface UserCacheStats {
+  hits: number;
+  misses: number;
+  // Hits that answered "not found" without asking the inner repository
+  negativeHits: number;
+  evictions: number;
+  invalidations: number;
+  size: number;
+  hitRate: number;
+}
+
+// Plain copy of the entity's state: callers get a fresh User each time and cannot mutate the cache
+interface CachedUser {
+  id: string;
+  tenantId: string;
+  name: string;
+  email: string;
+  createdAt: number;
+  updatedAt: number;
+  version: number;
+}
+
+interface CacheEntry {
+  user: CachedUser | null;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_MS = 30_000;
+const DEFAULT_NEGATIVE_TTL_MS = 5_000;
+const DEFAULT_MAX_ENTRIES = 1_000;
+
+// Only findById of active users is cached: findByEmail backs uniqueness checks, list is
+// paginated and deleted users are only read to restore them, so those go to the inner repository.
+// Entries are keyed by tenant and id, so one tenant's lookup never answers another's.
+export class CachingUserRepository implements IUserRepository {
+  // Map iteration order doubles as recency order: least recently used first
+  private entries = new Map<string, CacheEntry>();
+  private counters = { hits: 0, misses: 0, negativeHits: 0, evictions: 0, invalidations: 0 };
+  // Bumped on every invalidation; a lookup that overlapped one does not fill the cache
+  private generation = 0;
+  private readonly ttlMs: number;
+  private readonly negativeTtlMs: number;
+  private readonly maxEntries: number;
+  private readonly clock: Clock;
+
+  constructor(
+    private inner: IUserRepository,
+    options: UserCacheOptions = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.negativeTtlMs = options.negativeTtlMs ?? DEFAULT_NEGATIVE_TTL_MS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.clock = options.clock ?? new SystemClock();
+  }
+
+  async findById(tenantId: string, id: UserId, options: FindUserOptions = {}): Promise<User | null> {
+    if (options.includeDeleted) return this.inner.findById(tenantId, id, options);
+
+    const now = this.clock.now().getTime();
+    const key = cacheKey(tenantId, id.value);
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expiresAt > now) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.counters.hits++;
+      if (!entry.user) this.counters.negativeHits++;
+      return entry.user ? toUser(entry.user) : null;
+    }
+
+    this.counters.misses++;
+    const generation = this.generation;
+    const user = await this.inner.findById(tenantId, id);
+    if (generation === this.generation) this.remember(key, user, now);
+    return user;
+  }
+
+  async findByEmail(tenantId: string, email: string): Promise<User | null> {
+    return this.inner.findByEmail(tenantId, email);
+  }
+
+  async save(user: User): Promise<void> {
+    try {
+      await this.inner.save(user);
+    } finally {
+      this.invalidate(user.tenantId, user.id.value);
+    }
+  }
+
+  async delete(tenantId: string, id: UserId): Promise<void> {
+    try {
+      await this.inner.delete(tenantId, id);
+    } finally {
+      this.invalidate(tenantId, id.value);
+    }
+  }
+
+  async list(tenantId: string, query: UserListQuery): Promise<UserListPage> {
+    return this.inner.list(tenantId, query);
+  }
+
+  invalidate(tenantId: string, userId: string): void {
+    this.generation++;
+    if (this.entries.delete(cacheKey(tenantId, userId))) this.counters.invalidations++;
+  }
+
+  clear(): void {
+    this.generation++;
+    this.counters.invalidations += this.entries.size;
+    this.entries.clear();
+  }
+
+  stats(): UserCacheStats {
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      ...this.counters,
+      size: this.entries.size,
+      hitRate: lookups === 0 ? 0 : this.counters.hits / lookups,
+    };
+  }
+
+  // Units of work whose repositories bypass this decorator (e.g. SqlUnitOfWorkFactory)
+  // report their writes here: entries are dropped on write and again after commit,
+  // so a read that raced the open transaction cannot leave a stale entry behind
+  invalidatingUnitOfWork(unitOfWork: IUnitOfWorkFactory): IUnitOfWorkFactory {
+    return {
+      begin: async (): Promise<UnitOfWork> => {
+        const inner = await unitOfWork.begin();
+        const written = new Map<string, [tenantId: string, userId: string]>();
+        const track = (tenantId: string, userId: string) => {
+          written.set(cacheKey(tenantId, userId), [tenantId, userId]);
+          this.invalidate(tenantId, userId);
+        };
+
+        const users: IUserRepository = {
+          findById: (tenantId, id, options) => inner.users.findById(tenantId, id, options),
+          findByEmail: (tenantId, email) => inner.users.findByEmail(tenantId, email),
+          list: (tenantId, query) => inner.users.list(tenantId, query),
+          save: async (user) => {
+            track(user.tenantId, user.id.value);
+            await inner.users.save(user);
+          },
+          delete: async (tenantId, id) => {
+            track(tenantId, id.value);
+            await inner.users.delete(tenantId, id);
+          },
+        };
+
+        return {
+          users,
+          audit: inner.audit,
+          outbox: inner.outbox,
+          credentials: inner.credentials,
+          commit: async () => {
+            try {
+              await inner.commit();
+            } finally {
+              written.forEach(([tenantId, userId]) => this.invalidate(tenantId, userId));
+            }
+          },
+          rollback: () => inner.rollback(),
+        };
+      },
+    };
+  }
+
+  private remember(key: string, user: User | null, now: number): void {
+    const ttl = user ? this.ttlMs : this.negativeTtlMs;
+    if (ttl <= 0 || this.maxEntries <= 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { user: user && toCached(user), expiresAt: now + ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.counters.evictions++;
+    }
+  }
+}
+
+// Pair a unit of work with the repository it writes to, keeping a cache coherent if there is one
+export function withCacheInvalidation(
+  unitOfWork: IUnitOfWorkFactory,
+  repository: IUserRepository
+): IUnitOfWorkFactory {
+  return repository instanceof CachingUserRepository
+    ? repository.invalidatingUnitOfWork(unitOfWork)
+    : unitOfWork;
+}
+
+function cacheKey(tenantId: string, userId: string): string {
+  return `${tenantId}\u0000${userId}`;
+}
+
+function toCached(user: User): CachedUser {
+  return {
+    id: user.id.value,
+    tenantId: user.tenantId,
+    name: user.name,
+    email: user.email,
+    createdAt: user.createdAt.getTime(),
+    updatedAt: user.updatedAt.getTime(),
+    version: user.version,
+  };
+}
+
+function toUser(cached: CachedUser): User {
+  return new User(
+    { value: cached.id },
+    cached.tenantId,
+    cached.name,
+    cached.email,
+    new Date(cached.createdAt),
+    new Date(cached.updatedAt),
+    cached.version
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Clean Architecture: Clock Port
+ * Time is a dependency - Inject it instead of calling new Date() in business code
+ */
+
+export interface Clock {
+  now(): Date;
+}
+
+// Production clock: wall time
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+// Test clock: returns a fixed instant until told to move
+export class FixedClock implements Clock {
+  private current: number;
+
+  constructor(start: Date = new Date('2024-01-01T00:00:00.000Z')) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(instant: Date): void {
+    this.current = instant.getTime();
+  }
+
+  advance(milliseconds: number): void {
+    this.current += milliseconds;
+  }
+}
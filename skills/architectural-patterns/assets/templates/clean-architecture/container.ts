@@ -0,0 +1,148 @@
+/**
+ * Clean Architecture: Dependency Injection Container (Frameworks & Drivers Layer)
+ * Typed tokens and factory providers - Wiring lives in modules, not in constructors
+ */
+
+// Token: Names a dependency and carries its type; compared by identity
+export class Token<T> {
+  // Phantom member so Token<A> and Token<B> are not interchangeable
+  declare readonly type: T;
+
+  constructor(readonly name: string) {}
+
+  toString(): string {
+    return this.name;
+  }
+}
+
+export function token<T>(name: string): Token<T> {
+  return new Token<T>(name);
+}
+
+// singleton: one per container; request: one per scope; transient: new on every resolve
+export type Lifetime = 'singleton' | 'request' | 'transient';
+
+export interface Resolver {
+  resolve<T>(token: Token<T>): T;
+}
+
+export type Factory<T> = (resolver: Resolver) => T;
+
+// Module: A group of registrations, loaded in order
+export type ContainerModule = (container: Container) => void;
+
+interface Binding<T> {
+  factory: Factory<T>;
+  lifetime: Lifetime;
+}
+
+export class MissingBindingError extends Error {
+  constructor(readonly token: string, path: string[]) {
+    super(`No binding for ${token}${path.length > 0 ? ` (required by ${path.join(' -> ')})` : ''}`);
+    this.name = 'MissingBindingError';
+  }
+}
+
+export class CircularDependencyError extends Error {
+  constructor(readonly path: string[]) {
+    super(`Circular dependency: ${path.join(' -> ')}`);
+    this.name = 'CircularDependencyError';
+  }
+}
+
+// Misconfiguration: duplicate binding, late override, or a lifetime resolved where it cannot live
+export class ContainerConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContainerConfigurationError';
+  }
+}
+
+export class Container implements Resolver {
+  private bindings = new Map<Token<unknown>, Binding<unknown>>();
+  private singletons = new Map<Token<unknown>, unknown>();
+
+  bind<T>(token: Token<T>, factory: Factory<T>, lifetime: Lifetime = 'singleton'): this {
+    if (this.bindings.has(token)) {
+      throw new ContainerConfigurationError(`${token} is already bound; use override() to replace it`);
+    }
+    this.bindings.set(token, { factory, lifetime });
+    return this;
+  }
+
+  bindValue<T>(token: Token<T>, value: T): this {
+    return this.bind(token, () => value);
+  }
+
+  // Replace one binding (e.g. a fake repository in tests); dependants pick it up
+  // because nothing is built until the first resolve
+  override<T>(token: Token<T>, factory: Factory<T>, lifetime?: Lifetime): this {
+    if (this.singletons.size > 0) {
+      throw new ContainerConfigurationError(`Cannot override ${token} after resolving has started`);
+    }
+    const current = this.bindings.get(token);
+    if (!current) throw new MissingBindingError(token.name, []);
+    this.bindings.set(token, { factory, lifetime: lifetime ?? current.lifetime });
+    return this;
+  }
+
+  load(...modules: ContainerModule[]): this {
+    for (const module of modules) module(this);
+    return this;
+  }
+
+  resolve<T>(token: Token<T>): T {
+    return this.resolveWith(token, null, []);
+  }
+
+  // Request scope: request-lifetime bindings are built once per scope
+  createScope(): Resolver {
+    const instances = new Map<Token<unknown>, unknown>();
+    return { resolve: (token) => this.resolveWith(token, instances, []) };
+  }
+
+  private resolveWith<T>(
+    token: Token<T>,
+    scope: Map<Token<unknown>, unknown> | null,
+    path: Token<unknown>[]
+  ): T {
+    const names = path.map((entry) => entry.name);
+    if (path.includes(token)) {
+      throw new CircularDependencyError([...names, token.name]);
+    }
+
+    const binding = this.bindings.get(token) as Binding<T> | undefined;
+    if (!binding) throw new MissingBindingError(token.name, names);
+
+    const nextPath = [...path, token];
+    switch (binding.lifetime) {
+      case 'singleton': {
+        if (this.singletons.has(token)) return this.singletons.get(token) as T;
+        // Singletons never see a scope, so a request-scoped dependency cannot be captured
+        const instance = binding.factory(this.resolverFor(null, nextPath));
+        this.singletons.set(token, instance);
+        return instance;
+      }
+
+      case 'request': {
+        if (!scope) {
+          throw new ContainerConfigurationError(
+            `${token} is request-scoped and must be resolved from createScope()` +
+              (names.length > 0 ? ` (required by ${names.join(' -> ')})` : '')
+          );
+        }
+        if (scope.has(token)) return scope.get(token) as T;
+        const instance = binding.factory(this.resolverFor(scope, nextPath));
+        scope.set(token, instance);
+        return instance;
+      }
+
+      case 'transient':
+        return binding.factory(this.resolverFor(scope, nextPath));
+    }
+  }
+
+  private resolverFor(scope: Map<Token<unknown>, unknown> | null, path: Token<unknown>[]): Resolver {
+    return { resolve: (token) => this.resolveWith(token, scope, path) };
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Clean Architecture: Contract Checks
+ * What every contract suite is made of - Named checks, each run against a fresh target
+ *
+ * Runner-agnostic: plug a suite into Jest/Vitest/node:test,
+ *
+ *   for (const check of USER_REPOSITORY_CONTRACT) {
+ *     it(check.name, () => runContractCheck(check, createTarget));
+ *   }
+ *
+ * or call runContract(checks, createTarget) to get a report.
+ */
+
+// Target: Whatever a suite exercises, plus optional teardown
+export interface ContractTarget {
+  dispose?: () => Promise<void>;
+}
+
+// Factory: Returns a fresh, empty target per check, so checks never see each other's data
+export type ContractTargetFactory<T extends ContractTarget> = () => Promise<T>;
+
+export interface ContractCheck<T extends ContractTarget> {
+  name: string;
+  run(target: T): Promise<void>;
+}
+
+export interface ContractResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+// Run one check against a fresh target, always disposing it afterwards
+export async function runContractCheck<T extends ContractTarget>(
+  check: ContractCheck<T>,
+  factory: ContractTargetFactory<T>
+): Promise<void> {
+  const target = await factory();
+  try {
+    await check.run(target);
+  } finally {
+    await target.dispose?.();
+  }
+}
+
+// Run the whole suite and collect a pass/fail report instead of throwing
+export async function runContract<T extends ContractTarget>(
+  checks: ContractCheck<T>[],
+  factory: ContractTargetFactory<T>
+): Promise<ContractResult[]> {
+  const results: ContractResult[] = [];
+
+  for (const check of checks) {
+    try {
+      await runContractCheck(check, factory);
+      results.push({ name: check.name, passed: true });
+    } catch (error) {
+      results.push({
+        name: check.name,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+}
@@ -4,15 +4,69 @@
  */
 
 import {
-  CreateUserUseCase,
+  UseCase,
   CreateUserRequest,
   CreateUserResponse,
-  UpdateUserUseCase,
   UpdateUserRequest,
-  DeleteUserUseCase,
-  GetUserUseCase,
+  UpdateUserResponse,
+  DeleteUserRequest,
+  GetUserRequest,
+  ListUsersRequest,
+  ListUsersResponse,
+  RestoreUserRequest,
+  RestoreUserResponse,
+  EraseUserRequest,
+  EraseUserResponse,
+  ExportUserDataRequest,
+  UserDataExport,
 } from './use-cases';
+import {
+  AUDIT_ACTIONS,
+  AuditAction,
+  AuditEntry,
+  QueryAuditLogRequest,
+  QueryAuditLogResponse,
+  UserSnapshot,
+} from './audit-log';
+import {
+  DailySignups,
+  DomainUserCount,
+  RecentlyUpdatedUsersRequest,
+  SignupsPerDayRequest,
+  UserView,
+  UsersByDomainRequest,
+} from './read-models';
+import { randomUUID } from 'node:crypto';
 import { User } from './entities';
+import {
+  DomainError,
+  Result,
+  UnauthenticatedError,
+  ValidationFailedError,
+  err,
+} from './errors';
+import { IdGenerator } from './id-generator';
+import { Actor } from './authorization';
+import { IdempotencyStore, requestFingerprint } from './idempotency';
+import {
+  ProblemContext,
+  ProblemDetails,
+  ProblemTypeName,
+  createProblem,
+  internalProblem,
+  problemFromDomainError,
+} from './problems';
+import { ObjectSchema, parseWithSchema } from './schema';
+import {
+  ChangePasswordRequest,
+  LoginRequest,
+  LogoutRequest,
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH,
+  RefreshSessionRequest,
+  RegisterRequest,
+  SessionResponse,
+} from './credentials';
 
 // HTTP Request/Response DTOs
 export interface CreateUserHttpRequest {
@@ -20,143 +74,1060 @@ export interface CreateUserHttpRequest {
   email: string;
 }
 
+// Body of POST /users and PUT /users/:id; checked before any use case runs
+export const CREATE_USER_REQUEST_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 100, example: 'Ada Lovelace' },
+    email: { type: 'string', format: 'email', maxLength: 254, example: 'ada@example.com' },
+  },
+  required: ['name', 'email'],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
 export interface UserHttpResponse {
   id: string;
   name: string;
   email: string;
   createdAt: string;
   updatedAt: string;
+  version: number;
+}
+
+export const USER_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', example: '0190f5c4-8f2a-7c3e-9b1d-2a6f4e8c1b7d' },
+    name: { type: 'string', example: 'Ada Lovelace' },
+    email: { type: 'string', format: 'email', example: 'ada@example.com' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    version: { type: 'integer', minimum: 1, description: 'Also sent as the ETag header' },
+  },
+  required: ['id', 'name', 'email', 'createdAt', 'updatedAt', 'version'],
+} as const satisfies ObjectSchema;
+
+// Body of 201 and 200 write responses
+export interface UserIdHttpResponse {
+  userId: string;
+}
+
+export const USER_ID_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: { userId: { type: 'string' } },
+  required: ['userId'],
+} as const satisfies ObjectSchema;
+
+// GET /users?limit=&cursor=&sort=name|-name|createdAt|-createdAt&emailDomain=&nameContains=
+export interface ListUsersHttpQuery {
+  limit?: string;
+  cursor?: string;
+  sort?: string;
+  emailDomain?: string;
+  nameContains?: string;
+}
+
+export interface UserListHttpResponse {
+  users: UserHttpResponse[];
+  links: {
+    self: string;
+    next: string | null;
+  };
+}
+
+export const USER_LIST_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    users: { type: 'array', items: USER_RESPONSE_SCHEMA },
+    links: {
+      type: 'object',
+      properties: {
+        self: { type: 'string' },
+        next: { type: 'string', nullable: true, description: 'Null on the last page' },
+      },
+      required: ['self', 'next'],
+    },
+  },
+  required: ['users', 'links'],
+} as const satisfies ObjectSchema;
+
+// GET /audit-log?userId=&actorId=&action=&from=&to=&limit=&cursor=
+export interface AuditLogHttpQuery {
+  userId?: string;
+  actorId?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+  limit?: string;
+  cursor?: string;
+}
+
+export interface AuditEntryHttpResponse {
+  id: string;
+  userId: string;
+  actorId: string | null;
+  action: AuditAction;
+  before: UserSnapshot | null;
+  after: UserSnapshot | null;
+  occurredAt: string;
+}
+
+export interface AuditLogHttpResponse {
+  entries: AuditEntryHttpResponse[];
+  links: {
+    self: string;
+    next: string | null;
+  };
+}
+
+export const USER_SNAPSHOT_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    email: { type: 'string', format: 'email' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    deletedAt: { type: 'string', format: 'date-time', nullable: true },
+    version: { type: 'integer', minimum: 1 },
+  },
+  required: ['id', 'name', 'email', 'createdAt', 'updatedAt', 'deletedAt', 'version'],
+} as const satisfies ObjectSchema;
+
+// GET /users/:id/data-export: returned as-is, it is already plain JSON
+export const USER_DATA_EXPORT_SCHEMA = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: ['user-data-export'] },
+    formatVersion: { type: 'integer', minimum: 1 },
+    exportedAt: { type: 'string', format: 'date-time' },
+    subject: {
+      ...USER_SNAPSHOT_SCHEMA,
+      properties: {
+        ...USER_SNAPSHOT_SCHEMA.properties,
+        erasedAt: { type: 'string', format: 'date-time', nullable: true },
+      },
+      required: [...USER_SNAPSHOT_SCHEMA.required, 'erasedAt'],
+    },
+    history: {
+      type: 'array',
+      description: "Every recorded change to the user's own record, oldest first",
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          action: { type: 'string', enum: AUDIT_ACTIONS },
+          actorId: { type: 'string', nullable: true },
+          before: { ...USER_SNAPSHOT_SCHEMA, nullable: true },
+          after: { ...USER_SNAPSHOT_SCHEMA, nullable: true },
+          occurredAt: { type: 'string', format: 'date-time' },
+        },
+        required: ['id', 'action', 'actorId', 'before', 'after', 'occurredAt'],
+      },
+    },
+    activity: {
+      type: 'array',
+      description: 'Changes this user made to other accounts, without their data',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          action: { type: 'string', enum: AUDIT_ACTIONS },
+          userId: { type: 'string' },
+          occurredAt: { type: 'string', format: 'date-time' },
+        },
+        required: ['id', 'action', 'userId', 'occurredAt'],
+      },
+    },
+  },
+  required: ['format', 'formatVersion', 'exportedAt', 'subject', 'history', 'activity'],
+} as const satisfies ObjectSchema;
+
+export const AUDIT_ENTRY_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    userId: { type: 'string' },
+    actorId: {
+      type: 'string',
+      nullable: true,
+      description: 'Null for changes made without a signed-in actor',
+    },
+    action: { type: 'string', enum: AUDIT_ACTIONS },
+    before: { ...USER_SNAPSHOT_SCHEMA, nullable: true, description: 'Null for user.created' },
+    after: { ...USER_SNAPSHOT_SCHEMA, nullable: true },
+    occurredAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'userId', 'actorId', 'action', 'before', 'after', 'occurredAt'],
+} as const satisfies ObjectSchema;
+
+export const AUDIT_LOG_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    entries: { type: 'array', items: AUDIT_ENTRY_RESPONSE_SCHEMA },
+    links: {
+      type: 'object',
+      properties: {
+        self: { type: 'string' },
+        next: { type: 'string', nullable: true, description: 'Null on the last page' },
+      },
+      required: ['self', 'next'],
+    },
+  },
+  required: ['entries', 'links'],
+} as const satisfies ObjectSchema;
+
+// GET /reports/users-by-domain?limit= and GET /reports/recently-updated-users?limit=
+export interface ReportHttpQuery {
+  limit?: string;
+}
+
+// GET /reports/signups-per-day?from=&to=
+export interface SignupsPerDayHttpQuery {
+  from?: string;
+  to?: string;
+}
+
+// Read-model views are already plain JSON and go out as they are stored
+export interface UsersByDomainHttpResponse {
+  domains: DomainUserCount[];
+}
+
+export interface SignupsPerDayHttpResponse {
+  days: DailySignups[];
 }
 
+export interface RecentlyUpdatedUsersHttpResponse {
+  users: UserView[];
+}
+
+export const USER_VIEW_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    tenantId: { type: 'string' },
+    name: { type: 'string' },
+    email: { type: 'string', format: 'email' },
+    domain: { type: 'string', example: 'example.com' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    deletedAt: { type: 'string', format: 'date-time', nullable: true },
+  },
+  required: ['id', 'tenantId', 'name', 'email', 'domain', 'createdAt', 'updatedAt', 'deletedAt'],
+} as const satisfies ObjectSchema;
+
+export const USERS_BY_DOMAIN_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    domains: {
+      type: 'array',
+      description: 'Active users per email domain, largest first',
+      items: {
+        type: 'object',
+        properties: {
+          domain: { type: 'string' },
+          users: { type: 'integer', minimum: 1 },
+        },
+        required: ['domain', 'users'],
+      },
+    },
+  },
+  required: ['domains'],
+} as const satisfies ObjectSchema;
+
+export const SIGNUPS_PER_DAY_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    days: {
+      type: 'array',
+      description: 'Every day in the range, oldest first; zero on days without signups',
+      items: {
+        type: 'object',
+        properties: {
+          day: { type: 'string', format: 'date' },
+          signups: { type: 'integer', minimum: 0 },
+        },
+        required: ['day', 'signups'],
+      },
+    },
+  },
+  required: ['days'],
+} as const satisfies ObjectSchema;
+
+export const RECENTLY_UPDATED_USERS_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    users: { type: 'array', items: USER_VIEW_SCHEMA, description: 'Most recently updated first' },
+  },
+  required: ['users'],
+} as const satisfies ObjectSchema;
+
+// POST /auth/register: a new user plus the password they will sign in with
+export interface RegisterHttpRequest {
+  name: string;
+  email: string;
+  password: string;
+}
+
+const NEW_PASSWORD_SCHEMA = {
+  type: 'string',
+  format: 'password',
+  minLength: PASSWORD_MIN_LENGTH,
+  maxLength: PASSWORD_MAX_LENGTH,
+} as const;
+
+// Existing passwords are only bounded: a stricter rule must not lock out older accounts
+const CURRENT_PASSWORD_SCHEMA = {
+  type: 'string',
+  format: 'password',
+  minLength: 1,
+  maxLength: PASSWORD_MAX_LENGTH,
+} as const;
+
+export const REGISTER_REQUEST_SCHEMA = {
+  type: 'object',
+  properties: {
+    ...CREATE_USER_REQUEST_SCHEMA.properties,
+    password: NEW_PASSWORD_SCHEMA,
+  },
+  required: ['name', 'email', 'password'],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+// POST /auth/login
+export interface LoginHttpRequest {
+  email: string;
+  password: string;
+}
+
+export const LOGIN_REQUEST_SCHEMA = {
+  type: 'object',
+  properties: {
+    email: CREATE_USER_REQUEST_SCHEMA.properties.email,
+    password: CURRENT_PASSWORD_SCHEMA,
+  },
+  required: ['email', 'password'],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+// PUT /users/:id/password
+export interface ChangePasswordHttpRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export const CHANGE_PASSWORD_REQUEST_SCHEMA = {
+  type: 'object',
+  properties: {
+    currentPassword: CURRENT_PASSWORD_SCHEMA,
+    newPassword: NEW_PASSWORD_SCHEMA,
+  },
+  required: ['currentPassword', 'newPassword'],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+// POST /auth/refresh and POST /auth/logout: the token travels in the body, not a header,
+// so a refresh never happens by accident on an ordinary authenticated request
+export interface SessionTokenHttpRequest {
+  token: string;
+}
+
+export const SESSION_TOKEN_REQUEST_SCHEMA = {
+  type: 'object',
+  properties: {
+    token: { type: 'string', minLength: 1, maxLength: 2048 },
+  },
+  required: ['token'],
+  additionalProperties: false,
+} as const satisfies ObjectSchema;
+
+export interface SessionHttpResponse {
+  token: string;
+  userId: string;
+  expiresAt: string;
+}
+
+export const SESSION_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    token: { type: 'string', description: 'Send as Authorization: Bearer <token>' },
+    userId: { type: 'string' },
+    expiresAt: {
+      type: 'string',
+      format: 'date-time',
+      description: 'Refresh before then; each token can be refreshed once',
+    },
+  },
+  required: ['token', 'userId', 'expiresAt'],
+} as const satisfies ObjectSchema;
+
+// Failures carry an RFC 9457 problem instead of data
 export interface HttpResponse<T> {
   status: number;
   data?: T;
-  error?: string;
+  problem?: ProblemDetails;
+  headers?: Record<string, string>;
+}
+
+// Transport metadata the adapter passes along with each request
+export interface RequestContext {
+  correlationId?: string;
+  path?: string;
+  // Authenticated principal, if any; policies decide what it may do
+  actor?: Actor;
+  // Tenant named by the transport, for requests made before anyone is signed in
+  tenantId?: string;
+}
+
+// Idempotency-Key: an opaque client token, typically a UUID
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// ETag <-> entity version: strong validator, e.g. "3"
+export function toETag(version: number): string {
+  return `"${version}"`;
+}
+
+// If-Match: "*" accepts any stored version; weak or malformed tags never match
+function parseIfMatch(ifMatch: string): number | '*' | null {
+  const value = ifMatch.trim();
+  if (value === '*') return '*';
+
+  const match = /^"(\d+)"$/.exec(value);
+  return match ? Number(match[1]) : null;
+}
+
+type Precondition =
+  | { ok: true; expectedVersion?: number }
+  | { ok: false; problem: ProblemTypeName; detail: string };
+
+function checkIfMatch(ifMatch: string | undefined): Precondition {
+  if (ifMatch === undefined) {
+    return { ok: false, problem: 'preconditionRequired', detail: 'If-Match header is required' };
+  }
+
+  const expected = parseIfMatch(ifMatch);
+  if (expected === null) {
+    return {
+      ok: false,
+      problem: 'versionMismatch',
+      detail: 'If-Match does not match the current version',
+    };
+  }
+
+  return { ok: true, expectedVersion: expected === '*' ? undefined : expected };
+}
+
+// Query parsers leave out the tenant: that comes from the actor, never from the query string
+type ParsedQuery<Req> = Omit<Req, 'tenantId' | 'actor'>;
+
+function parseListQuery(query: ListUsersHttpQuery): ParsedQuery<ListUsersRequest> | ValidationFailedError {
+  const request: ParsedQuery<ListUsersRequest> = {
+    cursor: query.cursor,
+    emailDomain: query.emailDomain,
+    nameContains: query.nameContains,
+  };
+
+  if (query.limit !== undefined) {
+    if (!/^\d+$/.test(query.limit)) {
+      return new ValidationFailedError('Limit must be a positive integer', 'limit');
+    }
+    request.limit = Number(query.limit);
+  }
+
+  if (query.sort !== undefined) {
+    const descending = query.sort.startsWith('-');
+    const field = descending ? query.sort.slice(1) : query.sort;
+    if (field !== 'name' && field !== 'createdAt') {
+      return new ValidationFailedError('Sort must be name or createdAt, optionally prefixed with -', 'sort');
+    }
+    request.sortBy = field;
+    request.sortOrder = descending ? 'desc' : 'asc';
+  }
+
+  return request;
+}
+
+function parseAuditLogQuery(
+  query: AuditLogHttpQuery
+): ParsedQuery<QueryAuditLogRequest> | ValidationFailedError {
+  const request: ParsedQuery<QueryAuditLogRequest> = {
+    userId: query.userId,
+    actorId: query.actorId,
+    cursor: query.cursor,
+  };
+
+  if (query.limit !== undefined) {
+    if (!/^\d+$/.test(query.limit)) {
+      return new ValidationFailedError('Limit must be a positive integer', 'limit');
+    }
+    request.limit = Number(query.limit);
+  }
+
+  if (query.action !== undefined) {
+    if (!(AUDIT_ACTIONS as readonly string[]).includes(query.action)) {
+      return new ValidationFailedError(`Action must be one of ${AUDIT_ACTIONS.join(', ')}`, 'action');
+    }
+    request.action = query.action as AuditAction;
+  }
+
+  for (const field of ['from', 'to'] as const) {
+    const value = query[field];
+    if (value === undefined) continue;
+    const instant = new Date(value);
+    if (Number.isNaN(instant.getTime())) {
+      return new ValidationFailedError(`${field} must be an ISO-8601 date-time`, field);
+    }
+    request[field] = instant;
+  }
+
+  return request;
 }
 
-// User Controller: Handles HTTP requests
+function parseReportQuery(query: ReportHttpQuery): { limit?: number } | ValidationFailedError {
+  if (query.limit === undefined) return {};
+  if (!/^\d+$/.test(query.limit)) {
+    return new ValidationFailedError('Limit must be a positive integer', 'limit');
+  }
+  return { limit: Number(query.limit) };
+}
+
+// Every request is scoped to the actor's tenant; without an actor there is nothing to scope it to
+function tenantOf(context: RequestContext): string | UnauthenticatedError {
+  return context.actor?.tenantId ?? new UnauthenticatedError('Authentication is required');
+}
+
+// Register and login run without an actor, so the transport has to name the tenant
+function signInTenantOf(context: RequestContext): string | null {
+  return context.actor?.tenantId ?? context.tenantId ?? null;
+}
+
+function listLink(query: ListUsersHttpQuery | AuditLogHttpQuery, path = '/users'): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(name, value);
+  }
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+// User Controller: Handles HTTP requests.
+// Depends on the UseCase shape only, so wrapped (pipeline) and bare use cases are interchangeable.
 export class UserController {
   constructor(
-    private createUserUseCase: CreateUserUseCase,
-    private updateUserUseCase: UpdateUserUseCase,
-    private deleteUserUseCase: DeleteUserUseCase,
-    private getUserUseCase: GetUserUseCase
+    private createUserUseCase: UseCase<CreateUserRequest, CreateUserResponse>,
+    private updateUserUseCase: UseCase<UpdateUserRequest, UpdateUserResponse>,
+    private deleteUserUseCase: UseCase<DeleteUserRequest, void>,
+    private getUserUseCase: UseCase<GetUserRequest, User>,
+    private listUsersUseCase: UseCase<ListUsersRequest, ListUsersResponse>,
+    private restoreUserUseCase: UseCase<RestoreUserRequest, RestoreUserResponse>,
+    private eraseUserUseCase: UseCase<EraseUserRequest, EraseUserResponse>,
+    private exportUserDataUseCase: UseCase<ExportUserDataRequest, UserDataExport>,
+    private queryAuditLogUseCase: UseCase<QueryAuditLogRequest, QueryAuditLogResponse>,
+    private usersByDomainUseCase: UseCase<UsersByDomainRequest, DomainUserCount[]>,
+    private signupsPerDayUseCase: UseCase<SignupsPerDayRequest, DailySignups[]>,
+    private recentlyUpdatedUsersUseCase: UseCase<RecentlyUpdatedUsersRequest, UserView[]>,
+    private registerUseCase: UseCase<RegisterRequest, CreateUserResponse>,
+    private loginUseCase: UseCase<LoginRequest, SessionResponse>,
+    private changePasswordUseCase: UseCase<ChangePasswordRequest, SessionResponse>,
+    private logoutUseCase: UseCase<LogoutRequest, void>,
+    private refreshSessionUseCase: UseCase<RefreshSessionRequest, SessionResponse>,
+    private idGenerator: IdGenerator,
+    private idempotencyStore: IdempotencyStore<HttpResponse<unknown>>
   ) {}
 
-  // Convert HTTP request to use case request
+  // Convert HTTP request to use case request.
+  // With an Idempotency-Key, a retry replays the first response instead of creating again.
   async handleCreateUser(
-    httpRequest: CreateUserHttpRequest
-  ): Promise<HttpResponse<{ userId: string }>> {
+    body: unknown,
+    idempotencyKey?: string,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<UserIdHttpResponse>> {
+    const problemContext = this.problemContext(context);
+    try {
+      if (idempotencyKey === undefined) {
+        return await this.createUser(body, context, problemContext);
+      }
+      if (!IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+        return problemResponse(
+          createProblem('badRequest', 'Idempotency-Key must be 1-255 printable ASCII characters', problemContext)
+        );
+      }
+
+      // Keys are per caller, so two clients picking the same key never see each other's responses
+      const key = [context.actor?.tenantId ?? '', context.actor?.id ?? '', idempotencyKey].join('\u0000');
+      const fingerprint = requestFingerprint(body);
+      const existing = await this.idempotencyStore.claim(key, fingerprint);
+
+      if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+          return problemResponse(
+            createProblem('idempotencyKeyReused', 'Use a new Idempotency-Key for a different request', problemContext)
+          );
+        }
+        if (!existing.response) {
+          return problemResponse(
+            createProblem('idempotencyKeyInUse', 'Retry once the original request has finished', problemContext)
+          );
+        }
+        const replayed = existing.response as HttpResponse<UserIdHttpResponse>;
+        return { ...replayed, headers: { ...replayed.headers, 'Idempotent-Replayed': 'true' } };
+      }
+
+      const response = await this.createUser(body, context, problemContext);
+      // Server failures are not final: free the key so the client can retry
+      if (response.status >= 500) {
+        await this.idempotencyStore.release(key);
+      } else {
+        await this.idempotencyStore.complete(key, response);
+      }
+      return response;
+    } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
+    }
+  }
+
+  private async createUser(
+    body: unknown,
+    context: RequestContext,
+    problemContext: ProblemContext
+  ): Promise<HttpResponse<UserIdHttpResponse>> {
     try {
+      const tenantId = tenantOf(context);
+      if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, problemContext);
+
+      const parsed = parseWithSchema<CreateUserHttpRequest>(CREATE_USER_REQUEST_SCHEMA, body);
+      if (!parsed.ok) return this.errorResponse(parsed.error, problemContext);
+
+      const httpRequest = parsed.value;
       const useCaseRequest: CreateUserRequest = {
-        id: this.generateId(),
+        id: this.idGenerator.next(),
         name: httpRequest.name,
         email: httpRequest.email,
+        tenantId,
+        actor: context.actor,
       };
 
-      const response = await this.createUserUseCase.execute(useCaseRequest);
+      const result = await this.createUserUseCase.execute(useCaseRequest);
 
-      if (!response.success) {
-        return {
-          status: 400,
-          error: response.error,
-        };
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
       }
 
       return {
         status: 201,
-        data: { userId: response.userId! },
+        data: { userId: result.value.userId },
+        headers: { ETag: toETag(result.value.version) },
       };
     } catch (error) {
-      return {
-        status: 500,
-        error: 'Internal server error',
-      };
+      return this.unexpectedErrorResponse(error, problemContext);
     }
   }
 
+  // Requires If-Match with the ETag from a previous read (optimistic concurrency)
   async handleUpdateUser(
     userId: string,
-    httpRequest: CreateUserHttpRequest
-  ): Promise<HttpResponse<{ userId: string }>> {
+    body: unknown,
+    ifMatch?: string,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<UserIdHttpResponse>> {
+    const problemContext = this.problemContext(context);
     try {
+      const tenantId = tenantOf(context);
+      if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, problemContext);
+
+      const precondition = checkIfMatch(ifMatch);
+      if (!precondition.ok) return this.preconditionResponse(precondition, problemContext);
+
+      const parsed = parseWithSchema<CreateUserHttpRequest>(CREATE_USER_REQUEST_SCHEMA, body);
+      if (!parsed.ok) return this.errorResponse(parsed.error, problemContext);
+
+      const httpRequest = parsed.value;
       const useCaseRequest: UpdateUserRequest = {
         userId,
         name: httpRequest.name,
         email: httpRequest.email,
+        expectedVersion: precondition.expectedVersion,
+        tenantId,
+        actor: context.actor,
+      };
+
+      const result = await this.updateUserUseCase.execute(useCaseRequest);
+
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
+      }
+
+      return {
+        status: 200,
+        data: { userId: result.value.userId },
+        headers: { ETag: toETag(result.value.version) },
+      };
+    } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
+    }
+  }
+
+  async handleDeleteUser(
+    userId: string,
+    ifMatch?: string,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<null>> {
+    const problemContext = this.problemContext(context);
+    try {
+      const tenantId = tenantOf(context);
+      if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, problemContext);
+
+      const precondition = checkIfMatch(ifMatch);
+      if (!precondition.ok) return this.preconditionResponse(precondition, problemContext);
+
+      const result = await this.deleteUserUseCase.execute({
+        userId,
+        expectedVersion: precondition.expectedVersion,
+        tenantId,
+        actor: context.actor,
+      });
+
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
+      }
+
+      return {
+        status: 200,
+        data: null,
       };
+    } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
+    }
+  }
+
+  // Undoes a soft delete; If-Match carries the ETag the deleted user had
+  async handleRestoreUser(
+    userId: string,
+    ifMatch?: string,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<UserIdHttpResponse>> {
+    const problemContext = this.problemContext(context);
+    try {
+      const tenantId = tenantOf(context);
+      if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, problemContext);
+
+      const precondition = checkIfMatch(ifMatch);
+      if (!precondition.ok) return this.preconditionResponse(precondition, problemContext);
 
-      const response = await this.updateUserUseCase.execute(useCaseRequest);
+      const result = await this.restoreUserUseCase.execute({
+        userId,
+        expectedVersion: precondition.expectedVersion,
+        tenantId,
+        actor: context.actor,
+      });
 
-      if (!response.success) {
-        return {
-          status: 400,
-          error: response.error,
-        };
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
       }
 
       return {
         status: 200,
-        data: { userId: response.userId! },
+        data: { userId: result.value.userId },
+        headers: { ETag: toETag(result.value.version) },
       };
     } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
+    }
+  }
+
+  // Right to erasure: anonymises the user for good (If-Match as for delete)
+  async handleEraseUser(
+    userId: string,
+    ifMatch?: string,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<UserIdHttpResponse>> {
+    const problemContext = this.problemContext(context);
+    try {
+      const tenantId = tenantOf(context);
+      if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, problemContext);
+
+      const precondition = checkIfMatch(ifMatch);
+      if (!precondition.ok) return this.preconditionResponse(precondition, problemContext);
+
+      const result = await this.eraseUserUseCase.execute({
+        userId,
+        expectedVersion: precondition.expectedVersion,
+        tenantId,
+        actor: context.actor,
+      });
+
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
+      }
+
       return {
-        status: 500,
-        error: 'Internal server error',
+        status: 200,
+        data: { userId: result.value.userId },
+        headers: { ETag: toETag(result.value.version) },
       };
+    } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
     }
   }
 
-  async handleDeleteUser(userId: string): Promise<HttpResponse<null>> {
+  // Subject access request: served as a download, never cached by intermediaries
+  async handleExportUserData(
+    userId: string,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<UserDataExport>> {
+    const problemContext = this.problemContext(context);
     try {
-      const response = await this.deleteUserUseCase.execute(userId);
+      const tenantId = tenantOf(context);
+      if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, problemContext);
+
+      const result = await this.exportUserDataUseCase.execute({ userId, tenantId, actor: context.actor });
 
-      if (!response.success) {
-        return {
-          status: 400,
-          error: response.error,
-        };
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
       }
 
       return {
         status: 200,
-        data: null,
+        data: result.value,
+        headers: {
+          'Content-Disposition': `attachment; filename="user-data-${encodeURIComponent(userId)}.json"`,
+          'Cache-Control': 'no-store',
+        },
       };
     } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
+    }
+  }
+
+  async handleGetUser(
+    userId: string,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<UserHttpResponse>> {
+    const problemContext = this.problemContext(context);
+    try {
+      const tenantId = tenantOf(context);
+      if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, problemContext);
+
+      const result = await this.getUserUseCase.execute({ userId, tenantId, actor: context.actor });
+
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
+      }
+
       return {
-        status: 500,
-        error: 'Internal server error',
+        status: 200,
+        data: UserPresenter.toHttpResponse(result.value),
+        headers: { ETag: toETag(result.value.version) },
       };
+    } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
     }
   }
 
-  async handleGetUser(userId: string): Promise<HttpResponse<UserHttpResponse>> {
+  async handleListUsers(
+    query: ListUsersHttpQuery,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<UserListHttpResponse>> {
+    const problemContext = this.problemContext(context);
     try {
-      const response = await this.getUserUseCase.execute(userId);
+      const request = parseListQuery(query);
+      if (request instanceof ValidationFailedError) {
+        return this.errorResponse(request, problemContext);
+      }
 
-      if (!response.success) {
-        return {
-          status: 404,
-          error: response.error,
-        };
+      const tenantId = tenantOf(context);
+      if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, problemContext);
+
+      const result = await this.listUsersUseCase.execute({ ...request, tenantId, actor: context.actor });
+
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
       }
 
-      const user = response.user!;
+      const { users, nextCursor } = result.value;
+      const next = nextCursor ? listLink({ ...query, cursor: nextCursor }) : null;
       return {
         status: 200,
         data: {
-          id: user.id.value,
-          name: user.name,
-          email: user.email,
-          createdAt: user.createdAt.toISOString(),
-          updatedAt: user.updatedAt.toISOString(),
+          users: users.map((user) => UserPresenter.toHttpResponse(user)),
+          links: { self: listLink(query), next },
         },
+        headers: next ? { Link: `<${next}>; rel="next"` } : undefined,
       };
     } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
+    }
+  }
+
+  async handleQueryAuditLog(
+    query: AuditLogHttpQuery,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<AuditLogHttpResponse>> {
+    const problemContext = this.problemContext(context);
+    try {
+      const request = parseAuditLogQuery(query);
+      if (request instanceof ValidationFailedError) {
+        return this.errorResponse(request, problemContext);
+      }
+
+      const tenantId = tenantOf(context);
+      if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, problemContext);
+
+      const result = await this.queryAuditLogUseCase.execute({ ...request, tenantId, actor: context.actor });
+
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
+      }
+
+      const { entries, nextCursor } = result.value;
+      const next = nextCursor ? listLink({ ...query, cursor: nextCursor }, '/audit-log') : null;
+      return {
+        status: 200,
+        data: {
+          entries: entries.map((entry) => AuditEntryPresenter.toHttpResponse(entry)),
+          links: { self: listLink(query, '/audit-log'), next },
+        },
+        headers: next ? { Link: `<${next}>; rel="next"` } : undefined,
+      };
+    } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
+    }
+  }
+
+  // Dashboard reports: answered from read models, so no entity is loaded
+  async handleUsersByDomain(
+    query: ReportHttpQuery,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<UsersByDomainHttpResponse>> {
+    const request = parseReportQuery(query);
+    return this.report(
+      context,
+      async (tenantId) =>
+        request instanceof ValidationFailedError
+          ? err(request)
+          : this.usersByDomainUseCase.execute({ ...request, tenantId, actor: context.actor }),
+      (domains) => ({ domains })
+    );
+  }
+
+  async handleSignupsPerDay(
+    query: SignupsPerDayHttpQuery,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<SignupsPerDayHttpResponse>> {
+    return this.report(
+      context,
+      (tenantId) =>
+        this.signupsPerDayUseCase.execute({ from: query.from, to: query.to, tenantId, actor: context.actor }),
+      (days) => ({ days })
+    );
+  }
+
+  async handleRecentlyUpdatedUsers(
+    query: ReportHttpQuery,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<RecentlyUpdatedUsersHttpResponse>> {
+    const request = parseReportQuery(query);
+    return this.report(
+      context,
+      async (tenantId) =>
+        request instanceof ValidationFailedError
+          ? err(request)
+          : this.recentlyUpdatedUsersUseCase.execute({ ...request, tenantId, actor: context.actor }),
+      (users) => ({ users })
+    );
+  }
+
+  // Self-service sign-up; the new user signs in afterwards with POST /auth/login
+  async handleRegister(
+    body: unknown,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<UserIdHttpResponse>> {
+    const problemContext = this.problemContext(context);
+    try {
+      const tenantId = signInTenantOf(context);
+      if (tenantId === null) return this.missingTenantResponse(problemContext);
+
+      const parsed = parseWithSchema<RegisterHttpRequest>(REGISTER_REQUEST_SCHEMA, body);
+      if (!parsed.ok) return this.errorResponse(parsed.error, problemContext);
+
+      const result = await this.registerUseCase.execute({
+        id: this.idGenerator.next(),
+        name: parsed.value.name,
+        email: parsed.value.email,
+        password: parsed.value.password,
+        tenantId,
+      });
+
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
+      }
+
       return {
-        status: 500,
-        error: 'Internal server error',
+        status: 201,
+        data: { userId: result.value.userId },
+        headers: { ETag: toETag(result.value.version) },
       };
+    } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
+    }
+  }
+
+  // Wrong email, wrong password and a locked account all answer 401 alike
+  async handleLogin(body: unknown, context: RequestContext = {}): Promise<HttpResponse<SessionHttpResponse>> {
+    const tenantId = signInTenantOf(context);
+    if (tenantId === null) return this.missingTenantResponse(this.problemContext(context));
+
+    return this.session(context, LOGIN_REQUEST_SCHEMA, body, (request: LoginHttpRequest) =>
+      this.loginUseCase.execute({ email: request.email, password: request.password, tenantId })
+    );
+  }
+
+  // Signs out every other session; the response carries the caller's new token
+  async handleChangePassword(
+    userId: string,
+    body: unknown,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<SessionHttpResponse>> {
+    const tenantId = tenantOf(context);
+    if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, this.problemContext(context));
+
+    return this.session(context, CHANGE_PASSWORD_REQUEST_SCHEMA, body, (request: ChangePasswordHttpRequest) =>
+      this.changePasswordUseCase.execute({
+        userId,
+        currentPassword: request.currentPassword,
+        newPassword: request.newPassword,
+        tenantId,
+        actor: context.actor,
+      })
+    );
+  }
+
+  // Rotation: the old token stops working, the response carries its replacement
+  async handleRefreshSession(
+    body: unknown,
+    context: RequestContext = {}
+  ): Promise<HttpResponse<SessionHttpResponse>> {
+    return this.session(context, SESSION_TOKEN_REQUEST_SCHEMA, body, (request: SessionTokenHttpRequest) =>
+      this.refreshSessionUseCase.execute({ token: request.token })
+    );
+  }
+
+  // Always 200 for a well-formed body: signing out twice is still signed out
+  async handleLogout(body: unknown, context: RequestContext = {}): Promise<HttpResponse<null>> {
+    const problemContext = this.problemContext(context);
+    try {
+      const parsed = parseWithSchema<SessionTokenHttpRequest>(SESSION_TOKEN_REQUEST_SCHEMA, body);
+      if (!parsed.ok) return this.errorResponse(parsed.error, problemContext);
+
+      const result = await this.logoutUseCase.execute({ token: parsed.value.token });
+
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
+      }
+
+      return { status: 200, data: null };
+    } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
     }
   }
 
@@ -168,12 +1139,97 @@ export class UserController {
       email: user.email,
       createdAt: user.createdAt.toISOString(),
       updatedAt: user.updatedAt.toISOString(),
+      version: user.version,
     };
   }
 
-  private generateId(): string {
-    return `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Every request gets a correlation id, even when the transport did not supply one
+  private problemContext(context: RequestContext): ProblemContext {
+    return {
+      correlationId: context.correlationId ?? randomUUID(),
+      instance: context.path,
+    };
   }
+
+  // Shared flow of the report handlers: run the query for the actor's tenant,
+  // present its value or map its error
+  private async report<T, R>(
+    context: RequestContext,
+    query: (tenantId: string) => Promise<Result<T, DomainError>>,
+    present: (value: T) => R
+  ): Promise<HttpResponse<R>> {
+    const problemContext = this.problemContext(context);
+    try {
+      const tenantId = tenantOf(context);
+      if (tenantId instanceof UnauthenticatedError) return this.errorResponse(tenantId, problemContext);
+
+      const result = await query(tenantId);
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
+      }
+      return { status: 200, data: present(result.value) };
+    } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
+    }
+  }
+
+  // Shared flow of the handlers that hand out a token: parse the body, run the use case,
+  // present the session. Tokens are credentials, so the response is never cached.
+  private async session<B>(
+    context: RequestContext,
+    schema: ObjectSchema,
+    body: unknown,
+    run: (request: B) => Promise<Result<SessionResponse, DomainError>>
+  ): Promise<HttpResponse<SessionHttpResponse>> {
+    const problemContext = this.problemContext(context);
+    try {
+      const parsed = parseWithSchema<B>(schema, body);
+      if (!parsed.ok) return this.errorResponse(parsed.error, problemContext);
+
+      const result = await run(parsed.value);
+      if (!result.ok) {
+        return this.errorResponse(result.error, problemContext);
+      }
+
+      return {
+        status: 200,
+        data: SessionPresenter.toHttpResponse(result.value),
+        headers: { 'Cache-Control': 'no-store' },
+      };
+    } catch (error) {
+      return this.unexpectedErrorResponse(error, problemContext);
+    }
+  }
+
+  // Map any domain error to its problem (and HTTP status) in one place.
+  // A 401 also says which scheme to authenticate with (RFC 9110).
+  private errorResponse(error: DomainError, context: ProblemContext): HttpResponse<never> {
+    const response = problemResponse(problemFromDomainError(error, context));
+    return error instanceof UnauthenticatedError
+      ? { ...response, headers: { 'WWW-Authenticate': 'Bearer' } }
+      : response;
+  }
+
+  private missingTenantResponse(context: ProblemContext): HttpResponse<never> {
+    return problemResponse(createProblem('badRequest', 'X-Tenant-Id header is required', context));
+  }
+
+  private preconditionResponse(
+    precondition: Extract<Precondition, { ok: false }>,
+    context: ProblemContext
+  ): HttpResponse<never> {
+    return problemResponse(createProblem(precondition.problem, precondition.detail, context));
+  }
+
+  // The cause is logged server-side under the correlation id; the client never sees it
+  private unexpectedErrorResponse(error: unknown, context: ProblemContext): HttpResponse<never> {
+    console.error(`[${context.correlationId}] Unhandled error in UserController:`, error);
+    return problemResponse(internalProblem(context));
+  }
+}
+
+function problemResponse(problem: ProblemDetails): HttpResponse<never> {
+  return { status: problem.status, problem };
 }
 
 // Presenter: Separate presentation logic
@@ -185,20 +1241,31 @@ export class UserPresenter {
       email: user.email,
       createdAt: user.createdAt.toISOString(),
       updatedAt: user.updatedAt.toISOString(),
+      version: user.version,
     };
   }
+}
 
-  static formatError(error: Error): { message: string; code: string } {
-    if (error.message.includes('email')) {
-      return {
-        message: 'Invalid email format',
-        code: 'INVALID_EMAIL',
-      };
-    }
+export class SessionPresenter {
+  static toHttpResponse(session: SessionResponse): SessionHttpResponse {
+    return {
+      token: session.token,
+      userId: session.userId,
+      expiresAt: session.expiresAt.toISOString(),
+    };
+  }
+}
 
+export class AuditEntryPresenter {
+  static toHttpResponse(entry: AuditEntry): AuditEntryHttpResponse {
     return {
-      message: error.message,
-      code: 'UNKNOWN_ERROR',
+      id: entry.id,
+      userId: entry.userId,
+      actorId: entry.actorId,
+      action: entry.action,
+      before: entry.before,
+      after: entry.after,
+      occurredAt: entry.occurredAt.toISOString(),
     };
   }
 }
@@ -0,0 +1,451 @@
+/**
+ * Clean Architecture: Credentials & Sessions (Application Layer)
+ * Register, log in, change password, log out - Passwords and sessions live beside the User, never in it
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ConflictError, Result, UnauthenticatedError, ValidationFailedError, err, ok } from './errors';
+import { Actor, Role } from './authorization';
+import { Clock } from './clock';
+import { IdGenerator } from './id-generator';
+import { IDomainEventDispatcher, InProcessEventDispatcher } from './domain-events';
+import { PasswordHasher } from './password-hasher';
+import { SessionTokenSigner } from './session-tokens';
+import {
+  CreateUserError,
+  CreateUserResponse,
+  IUnitOfWorkFactory,
+  IUserRepository,
+  UseCase,
+  createUserIn,
+  runAndPublish,
+} from './use-cases';
+
+// A user's password and sign-in state. Kept out of the User entity, so the hash never
+// reaches its events, caches, the audit log or a data export.
+export interface UserCredential {
+  userId: string;
+  tenantId: string;
+  passwordHash: string;
+  // What the user may do once signed in
+  roles: Role[];
+  // Failed logins since the last success or lockout
+  failedAttempts: number;
+  lockedUntil: Date | null;
+  updatedAt: Date;
+}
+
+// Credential Store Port: Lookups are scoped to a tenant like the user repository's
+export interface ICredentialStore {
+  find(tenantId: string, userId: string): Promise<UserCredential | null>;
+  // Insert-only: false, and nothing written, when the user already has a credential
+  add(credential: UserCredential): Promise<boolean>;
+  save(credential: UserCredential): Promise<void>;
+  // Counts one wrong password as a single atomic step, so concurrent guesses each count,
+  // and locks the account once the policy's limit is reached
+  recordFailure(userId: string, now: Date, policy: LockoutPolicy): Promise<void>;
+  // Clears the count after a right password; false, and nothing changed, while locked out
+  resetFailures(userId: string, now: Date): Promise<boolean>;
+  delete(userId: string): Promise<void>;
+}
+
+// One sign-in. A token is only as good as its session: revoked or replaced means signed out.
+export interface Session {
+  id: string;
+  userId: string;
+  tenantId: string;
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  // Id of the session a refresh rotated this one into
+  replacedBy: string | null;
+}
+
+// Session Store Port
+export interface ISessionStore {
+  find(id: string): Promise<Session | null>;
+  save(session: Session): Promise<void>;
+  // Marks a live, unreplaced session as replaced in one atomic step; false when it was not,
+  // so of two refreshes racing with the same token only one can win
+  replace(id: string, replacedBy: string, at: Date): Promise<boolean>;
+  // Revokes every session of the user that is not revoked yet
+  revokeAll(userId: string, at: Date): Promise<void>;
+  deleteAll(userId: string): Promise<void>;
+}
+
+// Lockout: after maxFailures wrong passwords in a row, logins are refused for lockoutMs
+// without even checking the password
+export interface LockoutPolicy {
+  maxFailures: number;
+  lockoutMs: number;
+}
+
+export const DEFAULT_LOCKOUT_POLICY: LockoutPolicy = { maxFailures: 5, lockoutMs: 15 * 60_000 };
+
+export const DEFAULT_SESSION_TTL_MS = 60 * 60_000;
+
+// Self-registered users start with the least privileged role
+export const REGISTERED_USER_ROLES: readonly Role[] = ['member'];
+
+// Length is the rule that matters; the upper bound keeps hashing cheap to ask for
+export const PASSWORD_MIN_LENGTH = 12;
+export const PASSWORD_MAX_LENGTH = 128;
+
+function checkPassword(password: string, field: string): ValidationFailedError | null {
+  return password.length < PASSWORD_MIN_LENGTH || password.length > PASSWORD_MAX_LENGTH
+    ? new ValidationFailedError(
+        `Password must be ${PASSWORD_MIN_LENGTH}-${PASSWORD_MAX_LENGTH} characters long`,
+        field
+      )
+    : null;
+}
+
+// One message for unknown emails, wrong passwords and locked accounts alike,
+// so the response never tells an attacker which of them it was
+const invalidCredentials = () => new UnauthenticatedError('Invalid email or password');
+const invalidSession = () => new UnauthenticatedError('Session is invalid or has expired');
+
+// What a successful login, password change or refresh hands back
+export interface SessionResponse {
+  token: string;
+  userId: string;
+  expiresAt: Date;
+}
+
+// Password check shared by login and password change: counts failures towards the lockout.
+// Unknown users cost one hash as well, so timing does not reveal which emails are registered.
+// Failures are counted and cleared in the store, never by writing back the credential read
+// before the slow hash check: that copy may be stale by the time the check is done.
+export class PasswordVerifier {
+  private dummyHash?: Promise<string>;
+
+  constructor(
+    private credentials: ICredentialStore,
+    private hasher: PasswordHasher,
+    private clock: Clock,
+    private lockout: LockoutPolicy = DEFAULT_LOCKOUT_POLICY
+  ) {}
+
+  async verify(credential: UserCredential | null, password: string): Promise<UserCredential | null> {
+    if (!credential) {
+      this.dummyHash ??= this.hasher.hash(randomUUID());
+      await this.hasher.verify(password, await this.dummyHash);
+      return null;
+    }
+
+    const now = this.clock.now();
+    if (credential.lockedUntil && credential.lockedUntil > now) return null;
+
+    if (!(await this.hasher.verify(password, credential.passwordHash))) {
+      await this.credentials.recordFailure(credential.userId, now, this.lockout);
+      return null;
+    }
+
+    // Guesses running alongside this one may have locked the account in the meantime
+    if (!(await this.credentials.resetFailures(credential.userId, now))) return null;
+    return { ...credential, failedAttempts: 0, lockedUntil: null, updatedAt: now };
+  }
+}
+
+export interface IssuedSession {
+  session: Session;
+  token: string;
+}
+
+function sessionResponse({ session, token }: IssuedSession): SessionResponse {
+  return { token, userId: session.userId, expiresAt: session.expiresAt };
+}
+
+// Starts a session and signs the token naming it
+export class SessionIssuer {
+  constructor(
+    private sessions: ISessionStore,
+    private signer: SessionTokenSigner,
+    private idGenerator: IdGenerator,
+    private clock: Clock,
+    private ttlMs: number = DEFAULT_SESSION_TTL_MS
+  ) {}
+
+  async issue(credential: UserCredential, id: string = this.idGenerator.next()): Promise<IssuedSession> {
+    const createdAt = this.clock.now();
+    const session: Session = {
+      id,
+      userId: credential.userId,
+      tenantId: credential.tenantId,
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + this.ttlMs),
+      revokedAt: null,
+      replacedBy: null,
+    };
+    await this.sessions.save(session);
+
+    const token = this.signer.sign({
+      sessionId: session.id,
+      userId: session.userId,
+      tenantId: session.tenantId,
+      expiresAt: session.expiresAt,
+    });
+    return { session, token };
+  }
+
+  // Claims the old session for the new one before issuing it; null when another refresh
+  // (or a logout) got to the old session first
+  async rotate(previous: Session, credential: UserCredential): Promise<IssuedSession | null> {
+    const id = this.idGenerator.next();
+    if (!(await this.sessions.replace(previous.id, id, this.clock.now()))) return null;
+    return this.issue(credential, id);
+  }
+}
+
+// The session a token names, if the signature holds and both agree on whose it is
+async function sessionOf(
+  token: string,
+  signer: SessionTokenSigner,
+  sessions: ISessionStore
+): Promise<Session | null> {
+  const claims = signer.verify(token);
+  if (!claims) return null;
+
+  const session = await sessions.find(claims.sessionId);
+  return session && session.userId === claims.userId && session.tenantId === claims.tenantId
+    ? session
+    : null;
+}
+
+function isLive(session: Session, now: Date): boolean {
+  return session.revokedAt === null && session.expiresAt > now;
+}
+
+// Use Case: Register (self-service sign-up, no actor required)
+export interface RegisterRequest {
+  id: string;
+  name: string;
+  email: string;
+  password: string;
+  tenantId: string;
+}
+
+export type RegisterError = CreateUserError;
+
+// The user and their credential are created in one unit of work: a taken email or id fails
+// the whole registration before any credential is written, and the credential is only ever
+// inserted, so a registration can never overwrite someone else's password.
+// The user is created as if by themselves, so the audit trail shows a self-registration.
+export class RegisterUseCase implements UseCase<RegisterRequest, CreateUserResponse, RegisterError> {
+  constructor(
+    private unitOfWork: IUnitOfWorkFactory,
+    private events: IDomainEventDispatcher,
+    private hasher: PasswordHasher,
+    private clock: Clock
+  ) {}
+
+  async execute(request: RegisterRequest): Promise<Result<CreateUserResponse, RegisterError>> {
+    const invalid = checkPassword(request.password, 'password');
+    if (invalid) return err(invalid);
+
+    // Hashing is slow on purpose: done before the unit of work, not while holding it open
+    const passwordHash = await this.hasher.hash(request.password);
+    const roles = [...REGISTERED_USER_ROLES];
+    const { id, tenantId } = request;
+
+    return runAndPublish(this.unitOfWork, this.events, async (uow, collect) => {
+      const created = await createUserIn(
+        uow,
+        { id, name: request.name, email: request.email, tenantId, actor: { id, roles, tenantId } },
+        this.clock,
+        collect
+      );
+      if (!created.ok) return created;
+
+      const added = await uow.credentials.add({
+        userId: id,
+        tenantId,
+        passwordHash,
+        roles,
+        failedAttempts: 0,
+        lockedUntil: null,
+        updatedAt: this.clock.now(),
+      });
+      return added ? created : err(new ConflictError('User already has a password'));
+    });
+  }
+}
+
+// Use Case: Login
+export interface LoginRequest {
+  email: string;
+  password: string;
+  tenantId: string;
+}
+
+export class LoginUseCase implements UseCase<LoginRequest, SessionResponse, UnauthenticatedError> {
+  constructor(
+    private userRepository: IUserRepository,
+    private credentials: ICredentialStore,
+    private verifier: PasswordVerifier,
+    private issuer: SessionIssuer
+  ) {}
+
+  async execute(request: LoginRequest): Promise<Result<SessionResponse, UnauthenticatedError>> {
+    // Deleted users are not found, so they cannot sign in until restored
+    const user = await this.userRepository.findByEmail(request.tenantId, request.email);
+    const credential = user && (await this.credentials.find(request.tenantId, user.id.value));
+
+    const verified = await this.verifier.verify(credential, request.password);
+    if (!verified) return err(invalidCredentials());
+
+    return ok(sessionResponse(await this.issuer.issue(verified)));
+  }
+}
+
+// Use Case: Change Password.
+// Needs the current password even with a valid session, and signs out every other session:
+// the caller gets a fresh token, anyone holding an old one is locked out.
+export interface ChangePasswordRequest {
+  userId: string;
+  currentPassword: string;
+  newPassword: string;
+  tenantId: string;
+  actor?: Actor;
+}
+
+export type ChangePasswordError = UnauthenticatedError | ValidationFailedError;
+
+export class ChangePasswordUseCase
+  implements UseCase<ChangePasswordRequest, SessionResponse, ChangePasswordError>
+{
+  constructor(
+    private credentials: ICredentialStore,
+    private sessions: ISessionStore,
+    private hasher: PasswordHasher,
+    private verifier: PasswordVerifier,
+    private issuer: SessionIssuer,
+    private clock: Clock
+  ) {}
+
+  async execute(request: ChangePasswordRequest): Promise<Result<SessionResponse, ChangePasswordError>> {
+    const invalid = checkPassword(request.newPassword, 'newPassword');
+    if (invalid) return err(invalid);
+
+    const credential = await this.credentials.find(request.tenantId, request.userId);
+    const verified = await this.verifier.verify(credential, request.currentPassword);
+    if (!verified) return err(new UnauthenticatedError('Current password is incorrect'));
+
+    const passwordHash = await this.hasher.hash(request.newPassword);
+    const now = this.clock.now();
+    const changed = { ...verified, passwordHash, updatedAt: now };
+    await this.credentials.save(changed);
+    await this.sessions.revokeAll(request.userId, now);
+
+    return ok(sessionResponse(await this.issuer.issue(changed)));
+  }
+}
+
+// Use Case: Logout. Always succeeds: an unknown, expired or already revoked token is signed out too.
+export interface LogoutRequest {
+  token: string;
+}
+
+export class LogoutUseCase implements UseCase<LogoutRequest, void, never> {
+  constructor(
+    private sessions: ISessionStore,
+    private signer: SessionTokenSigner,
+    private clock: Clock
+  ) {}
+
+  async execute(request: LogoutRequest): Promise<Result<void, never>> {
+    const session = await sessionOf(request.token, this.signer, this.sessions);
+    if (session && session.revokedAt === null) {
+      await this.sessions.save({ ...session, revokedAt: this.clock.now() });
+    }
+    return ok(undefined);
+  }
+}
+
+// Use Case: Refresh Session (rotation).
+// Each token refreshes once: the old session is replaced by a new one. A replaced token coming
+// back means it leaked, so every session of that user is revoked and they must sign in again.
+// Two refreshes racing with one token count as reuse too: only one of them can claim the session.
+export interface RefreshSessionRequest {
+  token: string;
+}
+
+export class RefreshSessionUseCase
+  implements UseCase<RefreshSessionRequest, SessionResponse, UnauthenticatedError>
+{
+  constructor(
+    private credentials: ICredentialStore,
+    private sessions: ISessionStore,
+    private signer: SessionTokenSigner,
+    private issuer: SessionIssuer,
+    private clock: Clock
+  ) {}
+
+  async execute(request: RefreshSessionRequest): Promise<Result<SessionResponse, UnauthenticatedError>> {
+    const now = this.clock.now();
+    const session = await sessionOf(request.token, this.signer, this.sessions);
+    if (!session) return err(invalidSession());
+
+    if (session.replacedBy !== null) return this.reused(session, now);
+    if (!isLive(session, now)) return err(invalidSession());
+
+    const credential = await this.credentials.find(session.tenantId, session.userId);
+    if (!credential) return err(invalidSession());
+
+    const issued = await this.issuer.rotate(session, credential);
+    return issued ? ok(sessionResponse(issued)) : this.reused(session, now);
+  }
+
+  private async reused(session: Session, now: Date): Promise<Result<never, UnauthenticatedError>> {
+    await this.sessions.revokeAll(session.userId, now);
+    return err(new UnauthenticatedError('Session token was already used; sign in again'));
+  }
+}
+
+// Use Case: Authenticate Session. Turns a bearer token into the actor every other use case
+// expects; roles are read from the credential, so a change applies to the next request.
+export interface AuthenticateSessionRequest {
+  token: string;
+}
+
+export class AuthenticateSessionUseCase
+  implements UseCase<AuthenticateSessionRequest, Actor, UnauthenticatedError>
+{
+  constructor(
+    private credentials: ICredentialStore,
+    private sessions: ISessionStore,
+    private signer: SessionTokenSigner,
+    private clock: Clock
+  ) {}
+
+  async execute(request: AuthenticateSessionRequest): Promise<Result<Actor, UnauthenticatedError>> {
+    const session = await sessionOf(request.token, this.signer, this.sessions);
+    if (!session || !isLive(session, this.clock.now())) return err(invalidSession());
+
+    const credential = await this.credentials.find(session.tenantId, session.userId);
+    if (!credential) return err(invalidSession());
+
+    return ok({ id: credential.userId, roles: [...credential.roles], tenantId: credential.tenantId });
+  }
+}
+
+// Deleting a user signs them out everywhere; erasing one also drops the credential for good
+export class CredentialRevoker {
+  constructor(
+    private credentials: ICredentialStore,
+    private sessions: ISessionStore
+  ) {}
+
+  subscribeTo(dispatcher: InProcessEventDispatcher): () => void {
+    const unsubscribes = [
+      dispatcher.subscribe('UserDeleted', (event) =>
+        this.sessions.revokeAll(event.userId, event.occurredAt)
+      ),
+      dispatcher.subscribe('UserErased', async (event) => {
+        await this.sessions.deleteAll(event.userId);
+        await this.credentials.delete(event.userId);
+      }),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }
+}
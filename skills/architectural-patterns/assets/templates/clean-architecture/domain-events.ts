@@ -0,0 +1,106 @@
+/**
+ * Clean Architecture: Domain Events
+ * Facts recorded by entities, published after persistence - Subscribers stay decoupled
+ */
+
+// Events: Past-tense facts about a User aggregate, each naming the tenant the user belongs to
+export interface UserRegistered {
+  type: 'UserRegistered';
+  userId: string;
+  tenantId: string;
+  name: string;
+  email: string;
+  occurredAt: Date;
+}
+
+export interface UserProfileChanged {
+  type: 'UserProfileChanged';
+  userId: string;
+  tenantId: string;
+  changes: {
+    name?: { from: string; to: string };
+    email?: { from: string; to: string };
+  };
+  occurredAt: Date;
+}
+
+export interface UserDeleted {
+  type: 'UserDeleted';
+  userId: string;
+  tenantId: string;
+  occurredAt: Date;
+}
+
+export interface UserRestored {
+  type: 'UserRestored';
+  userId: string;
+  tenantId: string;
+  occurredAt: Date;
+}
+
+// Carries no personal data: subscribers must purge their own copies by userId
+export interface UserErased {
+  type: 'UserErased';
+  userId: string;
+  tenantId: string;
+  occurredAt: Date;
+}
+
+export type UserDomainEvent =
+  | UserRegistered
+  | UserProfileChanged
+  | UserDeleted
+  | UserRestored
+  | UserErased;
+
+export type UserDomainEventType = UserDomainEvent['type'];
+
+export type DomainEventHandler<E extends UserDomainEvent> = (event: E) => void | Promise<void>;
+
+// Dispatcher Port: Use cases publish through this, never call subscribers directly
+export interface IDomainEventDispatcher {
+  dispatch(events: readonly UserDomainEvent[]): Promise<void>;
+}
+
+// In-Process Dispatcher: Typed subscriptions, handlers run in registration order.
+// A failing subscriber is reported, not rethrown - the change is already persisted.
+export class InProcessEventDispatcher implements IDomainEventDispatcher {
+  private handlers = new Map<UserDomainEventType, DomainEventHandler<UserDomainEvent>[]>();
+
+  constructor(
+    private onHandlerError: (error: unknown, event: UserDomainEvent) => void = (error, event) =>
+      console.error(`Domain event handler failed for ${event.type}:`, error)
+  ) {}
+
+  // Returns an unsubscribe function
+  subscribe<K extends UserDomainEventType>(
+    type: K,
+    handler: DomainEventHandler<Extract<UserDomainEvent, { type: K }>>
+  ): () => void {
+    // Filed under its event type, so dispatch only ever hands it events of that type
+    const stored = handler as DomainEventHandler<UserDomainEvent>;
+    const handlers = this.handlers.get(type) ?? [];
+    handlers.push(stored);
+    this.handlers.set(type, handlers);
+
+    return () => {
+      const current = this.handlers.get(type) ?? [];
+      this.handlers.set(
+        type,
+        current.filter((h) => h !== stored)
+      );
+    };
+  }
+
+  async dispatch(events: readonly UserDomainEvent[]): Promise<void> {
+    for (const event of events) {
+      for (const handler of this.handlers.get(event.type) ?? []) {
+        try {
+          await handler(event);
+        } catch (error) {
+          this.onHandlerError(error, event);
+        }
+      }
+    }
+  }
+}
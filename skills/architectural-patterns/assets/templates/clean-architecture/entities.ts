@@ -3,6 +3,10 @@
  * Core business rules - Independent of frameworks and UI
  */
 
+import { ValidationFailedError } from './errors';
+import { UserDomainEvent, UserProfileChanged } from './domain-events';
+import { Clock } from './clock';
+
 // Entity: Core domain object with identity
 export interface UserId {
   value: string;
@@ -10,63 +14,183 @@ export interface UserId {
 
 export interface UserEntity {
   id: UserId;
+  tenantId: string;
   name: string;
   email: string;
   createdAt: Date;
   updatedAt: Date;
+  version: number;
+  deletedAt: Date | null;
+  erasedAt: Date | null;
+}
+
+// Right to erasure: what an erased user's personal data is replaced with.
+// The email stays unique per user, so uniqueness checks and lookups keep working.
+export function anonymisedIdentity(id: UserId): { name: string; email: string } {
+  return { name: 'Erased user', email: `erased-${id.value}@erased.invalid` };
 }
 
 export class User implements UserEntity {
   id: UserId;
+  // Owning organisation: every lookup is scoped to it, and emails are unique within it
+  tenantId: string;
   name: string;
   email: string;
   createdAt: Date;
   updatedAt: Date;
+  // Persisted revision: 0 until first saved, bumped by the repository on every save
+  version: number;
+  // Soft delete marker: set users are hidden from normal queries but can be restored
+  deletedAt: Date | null;
+  // Set once personal data has been anonymised; an erased user stays deleted for good
+  erasedAt: Date | null;
+  private domainEvents: UserDomainEvent[] = [];
 
   constructor(
     id: UserId,
+    tenantId: string,
     name: string,
     email: string,
-    createdAt: Date = new Date(),
-    updatedAt: Date = new Date()
+    createdAt: Date,
+    updatedAt: Date,
+    version: number = 0,
+    deletedAt: Date | null = null,
+    erasedAt: Date | null = null
   ) {
     this.validateEmail(email);
     this.validateName(name);
 
     this.id = id;
+    this.tenantId = tenantId;
     this.name = name;
     this.email = email;
     this.createdAt = createdAt;
     this.updatedAt = updatedAt;
+    this.version = version;
+    this.deletedAt = deletedAt;
+    this.erasedAt = erasedAt;
+  }
+
+  // Factory: A brand-new user (as opposed to one rehydrated from storage) records UserRegistered
+  static register(id: UserId, tenantId: string, name: string, email: string, clock: Clock): User {
+    const now = clock.now();
+    const user = new User(id, tenantId, name, email, now, now);
+    user.record({
+      type: 'UserRegistered',
+      userId: id.value,
+      tenantId,
+      name,
+      email,
+      occurredAt: user.createdAt,
+    });
+    return user;
   }
 
   // Core business rule: validate email
   private validateEmail(email: string): void {
     if (!email || !email.includes('@')) {
-      throw new Error('Invalid email format');
+      throw new ValidationFailedError('Invalid email format', 'email');
     }
   }
 
   // Core business rule: validate name
   private validateName(name: string): void {
     if (!name || name.trim().length === 0) {
-      throw new Error('Name cannot be empty');
+      throw new ValidationFailedError('Name cannot be empty', 'name');
     }
   }
 
   // Business logic: User can update their profile
-  updateProfile(name: string, email: string): void {
+  updateProfile(name: string, email: string, clock: Clock): void {
     this.validateName(name);
     this.validateEmail(email);
 
+    const changes: UserProfileChanged['changes'] = {};
+    if (name !== this.name) changes.name = { from: this.name, to: name };
+    if (email !== this.email) changes.email = { from: this.email, to: email };
+
     this.name = name;
     this.email = email;
-    this.updatedAt = new Date();
+    this.updatedAt = clock.now();
+
+    if (changes.name || changes.email) {
+      this.record({
+        type: 'UserProfileChanged',
+        userId: this.id.value,
+        tenantId: this.tenantId,
+        changes,
+        occurredAt: this.updatedAt,
+      });
+    }
+  }
+
+  // Business logic: Soft delete - the record stays, marked with when it was removed
+  markDeleted(clock: Clock): void {
+    this.deletedAt = clock.now();
+    this.updatedAt = this.deletedAt;
+    this.record({
+      type: 'UserDeleted',
+      userId: this.id.value,
+      tenantId: this.tenantId,
+      occurredAt: this.deletedAt,
+    });
+  }
+
+  // Business logic: Undo a soft delete
+  restore(clock: Clock): void {
+    if (!this.deletedAt || this.erasedAt) return;
+
+    this.deletedAt = null;
+    this.updatedAt = clock.now();
+    this.record({
+      type: 'UserRestored',
+      userId: this.id.value,
+      tenantId: this.tenantId,
+      occurredAt: this.updatedAt,
+    });
+  }
+
+  // Business logic: Right to erasure - personal data is replaced, identity and history stay
+  erase(clock: Clock): void {
+    if (this.erasedAt) return;
+
+    const now = clock.now();
+    const anonymised = anonymisedIdentity(this.id);
+    this.name = anonymised.name;
+    this.email = anonymised.email;
+    this.erasedAt = now;
+    this.deletedAt = this.deletedAt ?? now;
+    this.updatedAt = now;
+    this.record({
+      type: 'UserErased',
+      userId: this.id.value,
+      tenantId: this.tenantId,
+      occurredAt: now,
+    });
+  }
+
+  isErased(): boolean {
+    return this.erasedAt !== null;
+  }
+
+  isDeleted(): boolean {
+    return this.deletedAt !== null;
+  }
+
+  // Hand over recorded events exactly once (typically after a successful save)
+  pullDomainEvents(): UserDomainEvent[] {
+    const events = this.domainEvents;
+    this.domainEvents = [];
+    return events;
+  }
+
+  private record(event: UserDomainEvent): void {
+    this.domainEvents.push(event);
   }
 
   // Business logic: Check if user account is active
   isAccountActive(): boolean {
-    return !!this.id && !!this.name && !!this.email;
+    return !!this.id && !!this.name && !!this.email && !this.isDeleted();
   }
 }
 
@@ -76,7 +200,7 @@ export class Email {
 
   constructor(email: string) {
     if (!email.includes('@')) {
-      throw new Error('Invalid email');
+      throw new ValidationFailedError('Invalid email', 'email');
     }
     this.value = email;
   }
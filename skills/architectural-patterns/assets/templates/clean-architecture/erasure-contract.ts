@@ -0,0 +1,249 @@
+/**
+ * Clean Architecture: Erasure Contract Suite
+ * Proves the right-to-erasure flow leaves no personal data behind - Checked against raw storage
+ *
+ * Run it like any suite in ./contracts, or call
+ * runErasureContract(sqlErasureTarget(() => new SqliteDatabaseConnection())) for a report.
+ */
+
+import { strict as assert } from 'node:assert';
+import { inspect } from 'node:util';
+import { Application } from './index';
+import { Actor } from './authorization';
+import { TOKENS } from './modules';
+import { ContractCheck, ContractResult, ContractTarget, ContractTargetFactory, runContract } from './contracts';
+import {
+  IDatabaseConnection,
+  InMemoryAuditLog,
+  InMemoryUserRepository,
+  SqlAuditLog,
+  SqlCredentialStore,
+  SqlOutbox,
+  SqlSessionStore,
+  SqlUserReadModelStore,
+  SqlUserRepository,
+} from './repositories';
+import { SqlUnitOfWorkFactory } from './unit-of-work';
+import { MigrationRunner } from './migrations';
+import { CreateUserHttpRequest } from './controllers';
+import { ExportedAuditEntry } from './use-cases';
+
+export interface ErasureTarget extends ContractTarget {
+  app: Application;
+  // Everything the stores hold, as text: what a "no PII left" check searches
+  dump(): Promise<string>;
+}
+
+export type ErasureTargetFactory = ContractTargetFactory<ErasureTarget>;
+
+export type ErasureCheck = ContractCheck<ErasureTarget>;
+
+const ADMIN: Actor = { id: 'erasure-admin', roles: ['admin'], tenantId: 'erasure-tenant' };
+
+const SUBJECT: CreateUserHttpRequest = { name: 'Zelda Quartermain', email: 'zelda.quartermain@example.org' };
+const SUBJECT_RENAMED: CreateUserHttpRequest = { name: 'Zelda Q. Marsh', email: 'zq.marsh@example.net' };
+const BYSTANDER: CreateUserHttpRequest = { name: 'Otto Bystander', email: 'otto@example.com' };
+const SUBJECT_PASSWORD = 'quartermain passphrase';
+
+async function createUser(
+  app: Application,
+  request: CreateUserHttpRequest,
+  actor: Actor = ADMIN
+): Promise<string> {
+  const response = await app.createUser(request, actor);
+  assert.equal(response.status, 201, `create failed: ${JSON.stringify(response.problem)}`);
+  return response.data!.userId;
+}
+
+// Subject with a history: registered, renamed (old values live on in the audit trail), deleted
+async function subjectWithHistory(app: Application): Promise<string> {
+  const userId = await createUser(app, SUBJECT);
+  assert.equal((await app.updateUser(userId, SUBJECT_RENAMED, '"1"', ADMIN)).status, 200);
+  assert.equal((await app.deleteUser(userId, '"2"', ADMIN)).status, 200);
+  return userId;
+}
+
+function assertNoPersonalData(text: string, values: string[]): void {
+  const haystack = text.toLowerCase();
+  for (const value of values) {
+    assert.ok(!haystack.includes(value.toLowerCase()), `storage still contains "${value}"`);
+  }
+}
+
+export const ERASURE_CONTRACT: ErasureCheck[] = [
+  {
+    name: 'export bundle holds the profile, its full history and the actions the user took',
+    async run({ app }) {
+      const userId = await createUser(app, SUBJECT);
+      const self: Actor = { id: userId, roles: ['admin'], tenantId: ADMIN.tenantId };
+      await app.updateUser(userId, SUBJECT_RENAMED, '"1"', self);
+      const bystanderId = await createUser(app, BYSTANDER, self);
+
+      const response = await app.exportUserData(userId, { ...self, roles: ['member'] });
+      assert.equal(response.status, 200);
+      const bundle = response.data!;
+
+      assert.equal(bundle.format, 'user-data-export');
+      assert.equal(bundle.subject.email, SUBJECT_RENAMED.email);
+      assert.deepEqual(bundle.history.map((entry) => entry.action), ['user.created', 'user.updated']);
+      assert.equal(bundle.history[1].before?.email, SUBJECT.email);
+      assert.deepEqual(
+        bundle.activity.map((entry) => [entry.action, entry.userId]),
+        [['user.created', bystanderId]]
+      );
+      // Someone else's data never leaks into the subject's export
+      assertNoPersonalData(JSON.stringify(bundle), [BYSTANDER.name, BYSTANDER.email]);
+    },
+  },
+  {
+    name: 'erase leaves no trace of current or past names and emails in storage',
+    async run({ app, dump }) {
+      const userId = await subjectWithHistory(app);
+      assert.ok((await dump()).includes(SUBJECT.email), 'dump should see the data before erasure');
+
+      const response = await app.eraseUser(userId, '*', ADMIN);
+      assert.equal(response.status, 200);
+
+      assertNoPersonalData(await dump(), [
+        SUBJECT.name,
+        SUBJECT.email,
+        SUBJECT_RENAMED.name,
+        SUBJECT_RENAMED.email,
+      ]);
+    },
+  },
+  {
+    name: 'erase keeps the id, timestamps and every audit entry as evidence',
+    async run({ app }) {
+      const userId = await subjectWithHistory(app);
+      const before = (await app.exportUserData(userId, ADMIN)).data!;
+
+      await app.eraseUser(userId, '*', ADMIN);
+      const after = (await app.exportUserData(userId, ADMIN)).data!;
+
+      assert.equal(after.subject.id, userId);
+      assert.equal(after.subject.createdAt, before.subject.createdAt);
+      assert.ok(after.subject.erasedAt, 'erasedAt should be set');
+      assert.ok(after.subject.deletedAt, 'an erased user stays deleted');
+      // Same entries, same order, same actors and times - plus one recording the erasure
+      const evidence = (entry: ExportedAuditEntry) =>
+        [entry.id, entry.action, entry.actorId, entry.occurredAt];
+      assert.deepEqual(after.history.slice(0, -1).map(evidence), before.history.map(evidence));
+      assert.deepEqual(after.history.map((entry) => entry.action).slice(-1), ['user.erased']);
+      assert.equal(after.history[after.history.length - 1].actorId, ADMIN.id);
+      assert.equal(after.history[1].before?.version, before.history[1].before?.version);
+    },
+  },
+  {
+    name: 'an erased user cannot be restored, and the email can be registered again',
+    async run({ app }) {
+      const userId = await subjectWithHistory(app);
+      const erased = await app.eraseUser(userId, '*', ADMIN);
+
+      assert.equal((await app.restoreUser(userId, '*', ADMIN)).status, 409);
+      assert.equal((await app.getUser(userId, ADMIN)).status, 404);
+      assert.equal((await app.eraseUser(userId, '*', ADMIN)).headers?.ETag, erased.headers?.ETag);
+      await createUser(app, SUBJECT_RENAMED);
+    },
+  },
+  {
+    name: 'erasing one user leaves other users and their history untouched',
+    async run({ app, dump }) {
+      const userId = await subjectWithHistory(app);
+      const bystanderId = await createUser(app, BYSTANDER);
+
+      await app.eraseUser(userId, '*', ADMIN);
+
+      assert.equal((await app.getUser(bystanderId, ADMIN)).data?.email, BYSTANDER.email);
+      const history = await app.queryAuditLog({ userId: bystanderId }, ADMIN);
+      assert.equal(history.data?.entries[0].after?.name, BYSTANDER.name);
+      assert.ok((await dump()).includes(BYSTANDER.email));
+    },
+  },
+  {
+    name: 'erase drops the password hash and ends every session',
+    async run({ app, dump }) {
+      const registered = await app.register({ ...SUBJECT, password: SUBJECT_PASSWORD }, ADMIN.tenantId);
+      assert.equal(registered.status, 201, `register failed: ${JSON.stringify(registered.problem)}`);
+      const login = await app.login({ email: SUBJECT.email, password: SUBJECT_PASSWORD }, ADMIN.tenantId);
+      assert.equal(login.status, 200);
+      assert.ok((await dump()).includes('scrypt$'), 'dump should see the password hash before erasure');
+
+      await app.eraseUser(registered.data!.userId, '*', ADMIN);
+
+      assert.equal((await app.authenticate(login.data!.token)).ok, false);
+      assertNoPersonalData(await dump(), ['scrypt$']);
+    },
+  },
+];
+
+// In-memory stores: inspect reaches private fields and Map contents, so nothing is missed
+export const inMemoryErasureTarget: ErasureTargetFactory = async () => {
+  const repository = new InMemoryUserRepository();
+  const auditLog = new InMemoryAuditLog();
+  const app = new Application({ repository, auditLog, logger: { log: () => {} } });
+  const stores = [
+    repository,
+    auditLog,
+    app.container.resolve(TOKENS.outbox),
+    app.container.resolve(TOKENS.readModels),
+    app.container.resolve(TOKENS.idempotencyStore),
+    app.container.resolve(TOKENS.credentialStore),
+    app.container.resolve(TOKENS.sessionStore),
+  ];
+
+  return {
+    app,
+    dump: async () => inspect(stores, { depth: Infinity, maxArrayLength: null }),
+  };
+};
+
+// SQL stores: every row of every table the application writes (event streams included)
+const APPLICATION_TABLES = [
+  'users',
+  'user_audit_log',
+  'user_outbox',
+  'user_views',
+  'user_daily_signups',
+  'user_events',
+  'user_snapshots',
+  'user_email_lookup',
+  'user_credentials',
+  'user_sessions',
+];
+
+export function sqlErasureTarget(connect: () => IDatabaseConnection): ErasureTargetFactory {
+  return async () => {
+    const db = connect();
+    await new MigrationRunner(db).migrateToLatest();
+    const app = new Application({
+      repository: new SqlUserRepository(db),
+      unitOfWork: new SqlUnitOfWorkFactory(db),
+      auditLog: new SqlAuditLog(db),
+      outbox: new SqlOutbox(db),
+      readModels: new SqlUserReadModelStore(db),
+      credentials: new SqlCredentialStore(db),
+      sessions: new SqlSessionStore(db),
+      logger: { log: () => {} },
+    });
+
+    return {
+      app,
+      dump: async () => {
+        const tables = await Promise.all(
+          APPLICATION_TABLES.map((table) => db.query(`SELECT * FROM ${table}`, []))
+        );
+        return JSON.stringify(tables);
+      },
+      dispose: () => db.close(),
+    };
+  };
+}
+
+// Run the whole suite and collect a pass/fail report instead of throwing
+export function runErasureContract(
+  factory: ErasureTargetFactory,
+  checks: ErasureCheck[] = ERASURE_CONTRACT
+): Promise<ContractResult[]> {
+  return runContract(checks, factory);
+}
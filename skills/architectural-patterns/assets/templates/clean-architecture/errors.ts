@@ -0,0 +1,102 @@
+/**
+ * Clean Architecture: Domain Errors & Result
+ * Expected failures are values, not exceptions - Independent of frameworks and transport
+ */
+
+// Result: Either a value or a typed error
+export type Result<T, E = DomainError> =
+  | { ok: true; value: T }
+  | { ok: false; error: E };
+
+export function ok<T>(value: T): Result<T, never> {
+  return { ok: true, value };
+}
+
+export function err<E>(error: E): Result<never, E> {
+  return { ok: false, error };
+}
+
+// Error taxonomy: every expected business failure has a kind
+export type DomainErrorKind =
+  | 'not_found'
+  | 'conflict'
+  | 'validation_failed'
+  | 'unauthenticated'
+  | 'forbidden';
+
+export abstract class DomainError extends Error {
+  abstract readonly kind: DomainErrorKind;
+  abstract readonly code: string;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Requested entity does not exist
+export class NotFoundError extends DomainError {
+  readonly kind = 'not_found' as const;
+  readonly code = 'NOT_FOUND';
+
+  constructor(
+    readonly resource: string,
+    readonly resourceId: string
+  ) {
+    super(`${resource} not found`);
+  }
+}
+
+// Operation clashes with existing state (e.g. duplicate email)
+export class ConflictError extends DomainError {
+  readonly kind = 'conflict' as const;
+  readonly code: string = 'CONFLICT';
+}
+
+// Entity changed since the caller read it (optimistic concurrency)
+export class VersionConflictError extends ConflictError {
+  readonly code = 'VERSION_CONFLICT';
+
+  constructor(
+    readonly resource: string,
+    readonly resourceId: string,
+    readonly expectedVersion: number
+  ) {
+    super(`${resource} ${resourceId} was modified concurrently (expected version ${expectedVersion})`);
+  }
+}
+
+// One rejected attribute; nested fields use dotted paths (e.g. address.city)
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Business rule rejected the input; field points at the offending attribute,
+// errors lists every rejected attribute when more than one was checked
+export class ValidationFailedError extends DomainError {
+  readonly kind = 'validation_failed' as const;
+  readonly code = 'VALIDATION_FAILED';
+  readonly errors: FieldError[];
+
+  constructor(
+    message: string,
+    readonly field?: string,
+    errors?: FieldError[]
+  ) {
+    super(message);
+    this.errors = errors ?? (field ? [{ field, message }] : []);
+  }
+}
+
+// Caller is not allowed to perform the operation
+export class ForbiddenError extends DomainError {
+  readonly kind = 'forbidden' as const;
+  readonly code = 'FORBIDDEN';
+}
+
+// Caller could not prove who they are (bad credentials, expired or revoked session)
+export class UnauthenticatedError extends DomainError {
+  readonly kind = 'unauthenticated' as const;
+  readonly code = 'UNAUTHENTICATED';
+}
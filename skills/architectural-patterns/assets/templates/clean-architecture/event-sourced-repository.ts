@@ -0,0 +1,278 @@
+/**
+ * Clean Architecture: Event-Sourced Repository (Frameworks & Drivers Layer)
+ * IUserRepository over an append-only event stream per user - Replay, snapshots, email lookup
+ */
+
+import { User, UserId } from './entities';
+import { FindUserOptions, IUserRepository } from './use-cases';
+import { VersionConflictError } from './errors';
+import { UserListPage, UserListQuery, listUsersInMemory } from './user-queries';
+import { RedactedIdentity, UserSnapshot } from './audit-log';
+
+// What one save changed. Derived by comparing the saved entity with the replayed state, so the
+// use cases and the entity stay unaware of how they are stored.
+export type UserStreamChange =
+  | { type: 'UserRegistered'; name: string; email: string; createdAt: string }
+  // Only the fields that changed; neither means a save that touched nothing but updatedAt
+  | { type: 'UserProfileUpdated'; name?: string; email?: string }
+  | { type: 'UserDeleted'; deletedAt: string }
+  | { type: 'UserRestored' }
+  // Carries the anonymised name and email the user is left with
+  | { type: 'UserErased'; name: string; email: string; erasedAt: string };
+
+export interface UserStreamEvent {
+  userId: string;
+  // Owning tenant, fixed by the stream's first event
+  tenantId: string;
+  // 1-based position in the user's stream
+  sequence: number;
+  // Entity version after the save that appended it; one save may append several events
+  version: number;
+  // The entity's updatedAt after that save
+  recordedAt: string;
+  change: UserStreamChange;
+}
+
+// Folded state: everything needed to rebuild the entity
+export interface UserStreamState extends UserSnapshot {
+  tenantId: string;
+  erasedAt: string | null;
+}
+
+export interface UserStreamSnapshot {
+  userId: string;
+  // Last event folded into the state
+  sequence: number;
+  state: UserStreamState;
+}
+
+// Event Store Port: Streams are append-only. As on the audit log, the one sanctioned rewrite is
+// redactStream, for the right to erasure: past events and the snapshot lose the name and email.
+// Streams are keyed by the globally unique user id; the lookups are scoped to one tenant.
+export interface IUserEventStore {
+  // Appends after expectedSequence; false when the stream has moved on since it was read
+  append(userId: string, expectedSequence: number, events: readonly UserStreamEvent[]): Promise<boolean>;
+  // Events after the given sequence, oldest first
+  load(userId: string, afterSequence: number): Promise<UserStreamEvent[]>;
+  latestSnapshot(userId: string): Promise<UserStreamSnapshot | null>;
+  saveSnapshot(snapshot: UserStreamSnapshot): Promise<void>;
+  // Lookup projection, kept in step by every save: the email of each active user
+  indexEmail(tenantId: string, userId: string, email: string | null): Promise<void>;
+  usersWithEmail(tenantId: string, email: string): Promise<string[]>;
+  userIds(tenantId: string): Promise<string[]>;
+  // Hard delete: stream, snapshot and lookup entry
+  deleteStream(userId: string): Promise<void>;
+  redactStream(userId: string, identity: RedactedIdentity): Promise<void>;
+}
+
+export function redactStreamChange(change: UserStreamChange, identity: RedactedIdentity): UserStreamChange {
+  switch (change.type) {
+    case 'UserRegistered':
+      return { ...change, name: identity.name, email: identity.email };
+    case 'UserProfileUpdated':
+      return {
+        ...change,
+        ...(change.name !== undefined && { name: identity.name }),
+        ...(change.email !== undefined && { email: identity.email }),
+      };
+    default:
+      return change;
+  }
+}
+
+// Left fold over the stream; a snapshot is simply a fold that has already been done
+export function applyStreamEvent(state: UserStreamState | null, event: UserStreamEvent): UserStreamState {
+  const { change } = event;
+  const base: UserStreamState = state ?? {
+    id: event.userId,
+    tenantId: event.tenantId,
+    name: '',
+    email: '',
+    createdAt: event.recordedAt,
+    updatedAt: event.recordedAt,
+    deletedAt: null,
+    erasedAt: null,
+    version: 0,
+  };
+  const next = { ...base, updatedAt: event.recordedAt, version: event.version };
+
+  switch (change.type) {
+    case 'UserRegistered':
+      return { ...next, name: change.name, email: change.email, createdAt: change.createdAt };
+    case 'UserProfileUpdated':
+      return { ...next, name: change.name ?? next.name, email: change.email ?? next.email };
+    case 'UserDeleted':
+      return { ...next, deletedAt: change.deletedAt };
+    case 'UserRestored':
+      return { ...next, deletedAt: null };
+    case 'UserErased':
+      return { ...next, name: change.name, email: change.email, erasedAt: change.erasedAt };
+  }
+}
+
+// The events that turn the stored state into the saved entity
+function changesFor(state: UserStreamState | null, user: User): UserStreamChange[] {
+  const changes: UserStreamChange[] = [];
+  let current = state;
+  if (!current) {
+    // A new stream opens with the registration; anything else the entity holds follows it
+    const createdAt = user.createdAt.toISOString();
+    changes.push({ type: 'UserRegistered', name: user.name, email: user.email, createdAt });
+    current = {
+      id: user.id.value,
+      tenantId: user.tenantId,
+      name: user.name,
+      email: user.email,
+      createdAt,
+      updatedAt: createdAt,
+      deletedAt: null,
+      erasedAt: null,
+      version: 0,
+    };
+  }
+
+  const erasedAt = user.erasedAt;
+  const erasing = !current.erasedAt && erasedAt !== null;
+  if (!erasing && (user.name !== current.name || user.email !== current.email)) {
+    changes.push({
+      type: 'UserProfileUpdated',
+      ...(user.name !== current.name && { name: user.name }),
+      ...(user.email !== current.email && { email: user.email }),
+    });
+  }
+
+  const deletedAt = user.deletedAt?.toISOString() ?? null;
+  if (deletedAt !== current.deletedAt) {
+    changes.push(deletedAt ? { type: 'UserDeleted', deletedAt } : { type: 'UserRestored' });
+  }
+  if (erasing) {
+    changes.push({ type: 'UserErased', name: user.name, email: user.email, erasedAt: erasedAt.toISOString() });
+  }
+
+  return changes.length > 0 ? changes : [{ type: 'UserProfileUpdated' }];
+}
+
+function toUser(state: UserStreamState): User {
+  return new User(
+    { value: state.id },
+    state.tenantId,
+    state.name,
+    state.email,
+    new Date(state.createdAt),
+    new Date(state.updatedAt),
+    state.version,
+    state.deletedAt ? new Date(state.deletedAt) : null,
+    state.erasedAt ? new Date(state.erasedAt) : null
+  );
+}
+
+export interface EventSourcedRepositoryOptions {
+  // Store a snapshot each time a stream grows past another multiple of this many events
+  snapshotEvery?: number;
+}
+
+const DEFAULT_SNAPSHOT_EVERY = 20;
+
+// Event-Sourced Repository: save appends what changed, findById replays from the latest snapshot.
+// Same contract as the state-based adapters (see ./repository-contract), so the use cases and
+// both unit of work factories run on it unchanged.
+export class EventSourcedUserRepository implements IUserRepository {
+  private readonly snapshotEvery: number;
+
+  constructor(
+    private store: IUserEventStore,
+    options: EventSourcedRepositoryOptions = {}
+  ) {
+    this.snapshotEvery = options.snapshotEvery ?? DEFAULT_SNAPSHOT_EVERY;
+    if (!Number.isInteger(this.snapshotEvery) || this.snapshotEvery < 1) {
+      throw new Error(`snapshotEvery must be a positive integer, got ${options.snapshotEvery}`);
+    }
+  }
+
+  async findById(tenantId: string, id: UserId, options: FindUserOptions = {}): Promise<User | null> {
+    const { state } = await this.replay(id.value);
+    if (!state || state.tenantId !== tenantId || (state.deletedAt && !options.includeDeleted)) {
+      return null;
+    }
+
+    return toUser(state);
+  }
+
+  // Served by the lookup projection; the earliest-created match wins, as in the other adapters
+  async findByEmail(tenantId: string, email: string): Promise<User | null> {
+    let match: UserStreamState | null = null;
+    for (const userId of await this.store.usersWithEmail(tenantId, email)) {
+      const { state } = await this.replay(userId);
+      if (!state || state.tenantId !== tenantId || state.deletedAt || state.email !== email) continue;
+      if (
+        !match ||
+        state.createdAt < match.createdAt ||
+        (state.createdAt === match.createdAt && state.id < match.id)
+      ) {
+        match = state;
+      }
+    }
+    return match && toUser(match);
+  }
+
+  // Optimistic concurrency: the entity must carry the version the stream has replayed to,
+  // and a stream never changes tenant
+  async save(user: User): Promise<void> {
+    const { state, sequence } = await this.replay(user.id.value);
+    if (user.version !== (state?.version ?? 0) || (state && state.tenantId !== user.tenantId)) {
+      throw new VersionConflictError('User', user.id.value, user.version);
+    }
+
+    const version = user.version + 1;
+    const recordedAt = user.updatedAt.toISOString();
+    const events = changesFor(state, user).map((change, index) => ({
+      userId: user.id.value,
+      tenantId: user.tenantId,
+      sequence: sequence + index + 1,
+      version,
+      recordedAt,
+      change,
+    }));
+
+    if (!(await this.store.append(user.id.value, sequence, events))) {
+      throw new VersionConflictError('User', user.id.value, user.version);
+    }
+    await this.store.indexEmail(user.tenantId, user.id.value, user.deletedAt ? null : user.email);
+
+    const next = events.reduce<UserStreamState | null>(applyStreamEvent, state)!;
+    const last = events[events.length - 1].sequence;
+    if (events.some((event) => event.change.type === 'UserErased')) {
+      // Earlier events and the snapshot still hold the real name and email
+      await this.store.redactStream(user.id.value, { name: user.name, email: user.email });
+    }
+    if (Math.floor(last / this.snapshotEvery) > Math.floor(sequence / this.snapshotEvery)) {
+      await this.store.saveSnapshot({ userId: user.id.value, sequence: last, state: next });
+    }
+
+    user.version = version;
+  }
+
+  async delete(tenantId: string, id: UserId): Promise<void> {
+    const { state } = await this.replay(id.value);
+    if (state?.tenantId === tenantId) await this.store.deleteStream(id.value);
+  }
+
+  // Replays every stream: fine for evaluation, but listings at scale belong on ./read-models
+  async list(tenantId: string, query: UserListQuery): Promise<UserListPage> {
+    const users: User[] = [];
+    for (const userId of await this.store.userIds(tenantId)) {
+      const { state } = await this.replay(userId);
+      if (state && state.tenantId === tenantId && !state.deletedAt) users.push(toUser(state));
+    }
+    return listUsersInMemory(users, query);
+  }
+
+  private async replay(userId: string): Promise<{ state: UserStreamState | null; sequence: number }> {
+    const snapshot = await this.store.latestSnapshot(userId);
+    const events = await this.store.load(userId, snapshot?.sequence ?? 0);
+    return {
+      state: events.reduce<UserStreamState | null>(applyStreamEvent, snapshot?.state ?? null),
+      sequence: events.length > 0 ? events[events.length - 1].sequence : snapshot?.sequence ?? 0,
+    };
+  }
+}
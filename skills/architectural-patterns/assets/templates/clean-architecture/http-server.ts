@@ -0,0 +1,322 @@
+/**
+ * Clean Architecture: HTTP Adapter (Frameworks & Drivers Layer)
+ * Serves UserController over plain Node http - No web framework required
+ */
+
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http';
+import { randomUUID } from 'node:crypto';
+import {
+  UserController,
+  HttpResponse,
+} from './controllers';
+import { PROBLEM_CONTENT_TYPE, ProblemContext, ProblemTypeName, createProblem } from './problems';
+import { HttpMethod, RouteContext, USER_ROUTES } from './user-routes';
+import { Actor, ROLES, Role } from './authorization';
+import { AuthenticateSessionRequest } from './credentials';
+import { UseCase } from './use-cases';
+
+export type RouteHandler = (context: RouteContext) => Promise<HttpResponse<unknown>>;
+
+export type RouteMatch =
+  | {
+      kind: 'found';
+      handler: RouteHandler;
+      params: Record<string, string>;
+      acceptsBody: boolean;
+      isPublic: boolean;
+    }
+  | { kind: 'method_not_allowed'; allowed: HttpMethod[] }
+  | { kind: 'not_found' };
+
+interface Route {
+  method: HttpMethod;
+  segments: string[];
+  handler: RouteHandler;
+  acceptsBody: boolean;
+  isPublic: boolean;
+}
+
+// Transport-level failure (bad JSON, wrong content type, ...) raised before the controller runs
+class HttpError extends Error {
+  constructor(
+    readonly problem: ProblemTypeName,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// Router: Matches "/users/:id" style patterns, no regular expressions needed
+export class Router {
+  private routes: Route[] = [];
+
+  // Only routes that accept a body have one read (and its Content-Type checked);
+  // public routes are served to callers whose bearer token no longer checks out
+  add(method: HttpMethod, path: string, handler: RouteHandler, acceptsBody = false, isPublic = false): this {
+    this.routes.push({ method, segments: splitPath(path), handler, acceptsBody, isPublic });
+    return this;
+  }
+
+  match(method: string, pathname: string): RouteMatch {
+    const segments = splitPath(pathname);
+    const allowed: HttpMethod[] = [];
+
+    for (const route of this.routes) {
+      const params = matchSegments(route.segments, segments);
+      if (!params) continue;
+
+      if (route.method === method) {
+        const { handler, acceptsBody, isPublic } = route;
+        return { kind: 'found', handler, params, acceptsBody, isPublic };
+      }
+      allowed.push(route.method);
+    }
+
+    return allowed.length > 0
+      ? { kind: 'method_not_allowed', allowed }
+      : { kind: 'not_found' };
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter((segment) => segment.length > 0);
+}
+
+function matchSegments(pattern: string[], actual: string[]): Record<string, string> | null {
+  if (pattern.length !== actual.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      try {
+        params[pattern[i].slice(1)] = decodeURIComponent(actual[i]);
+      } catch {
+        throw new HttpError('badRequest', 'Malformed path parameter');
+      }
+    } else if (pattern[i] !== actual[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+// Routes: Registered from the same table the OpenAPI document is generated from
+export function createUserRouter(controller: UserController): Router {
+  const router = new Router();
+  for (const route of USER_ROUTES) {
+    router.add(
+      route.method,
+      route.path,
+      (context) => route.handle(controller, context),
+      route.requestBody !== undefined,
+      route.public ?? false
+    );
+  }
+  return router;
+}
+
+export type ActorResolver = (req: IncomingMessage) => Actor | undefined | Promise<Actor | undefined>;
+
+export interface HttpServerOptions {
+  maxBodyBytes?: number;
+  // Who is calling; defaults to nobody, so every request is anonymous
+  resolveActor?: ActorResolver;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+const CORRELATION_ID_PATTERN = /^[\w.-]{1,128}$/;
+const ACTOR_ID_PATTERN = /^[\w.-]{1,128}$/;
+const TENANT_ID_PATTERN = /^[\w.-]{1,64}$/;
+
+// Reuse the caller's correlation id when it is sane, otherwise mint one
+function correlationIdFor(req: IncomingMessage): string {
+  const supplied = req.headers['x-correlation-id'];
+  return typeof supplied === 'string' && CORRELATION_ID_PATTERN.test(supplied)
+    ? supplied
+    : randomUUID();
+}
+
+// X-Actor-Id / X-Actor-Roles (comma-separated) / X-Tenant-Id as forwarded by an authenticating
+// proxy. Opt-in only, for deployments behind a proxy that strips these headers from client
+// requests: anywhere else a client can name itself admin of any tenant.
+// An actor without a tenant is no actor at all: every request is scoped to one.
+export function actorFromHeaders(req: IncomingMessage): Actor | undefined {
+  const id = req.headers['x-actor-id'];
+  if (typeof id !== 'string' || !ACTOR_ID_PATTERN.test(id)) return undefined;
+  const tenantId = tenantFromHeaders(req);
+  if (tenantId === undefined) return undefined;
+
+  const roles = String(req.headers['x-actor-roles'] ?? '')
+    .split(',')
+    .map((role) => role.trim())
+    .filter((role): role is Role => (ROLES as readonly string[]).includes(role));
+  return { id, roles, tenantId };
+}
+
+// X-Tenant-Id on its own names the tenant to register or log in to
+export function tenantFromHeaders(req: IncomingMessage): string | undefined {
+  const tenantId = req.headers['x-tenant-id'];
+  return typeof tenantId === 'string' && TENANT_ID_PATTERN.test(tenantId) ? tenantId : undefined;
+}
+
+// Authorization: Bearer <token> from /auth/login. A token that is presented but no longer valid
+// is refused with 401 rather than ignored; requests without one are anonymous unless a fallback,
+// such as actorFromHeaders behind a trusted proxy, is passed in.
+export function bearerTokenActor(
+  authenticate: UseCase<AuthenticateSessionRequest, Actor>,
+  fallback: ActorResolver = () => undefined
+): ActorResolver {
+  return async (req) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+    if (!match) return fallback(req);
+
+    const result = await authenticate.execute({ token: match[1] });
+    if (!result.ok) throw new HttpError('unauthorized', result.error.message);
+    return result.value;
+  };
+}
+
+// Server: Parses the request, dispatches to the router, writes the HttpResponse
+export function createHttpServer(
+  controller: UserController,
+  options: HttpServerOptions = {}
+): Server {
+  const router = createUserRouter(controller);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const resolveActor = options.resolveActor ?? (() => undefined);
+
+  return createServer(async (req, res) => {
+    const correlationId = correlationIdFor(req);
+    const problemContext: ProblemContext = { correlationId, instance: req.url };
+    res.setHeader('X-Correlation-Id', correlationId);
+
+    try {
+      const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+      const match = router.match(req.method ?? 'GET', pathname);
+
+      if (match.kind === 'not_found') {
+        return send(res, transportProblem('routeNotFound', `No route for ${pathname}`, problemContext));
+      }
+
+      if (match.kind === 'method_not_allowed') {
+        res.setHeader('Allow', match.allowed.join(', '));
+        return send(
+          res,
+          transportProblem('methodNotAllowed', `${req.method} is not supported on ${pathname}`, problemContext)
+        );
+      }
+
+      const body = match.acceptsBody ? await readJsonBody(req, maxBodyBytes) : undefined;
+
+      const response = await match.handler({
+        params: match.params,
+        query: Object.fromEntries(searchParams),
+        headers: req.headers,
+        body,
+        context: {
+          correlationId,
+          path: req.url,
+          actor: await actorFor(req, resolveActor, match.isPublic),
+          tenantId: tenantFromHeaders(req),
+        },
+      });
+      send(res, response);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        // Stop reading an oversized upload instead of draining it
+        if (error.problem === 'payloadTooLarge') res.setHeader('Connection', 'close');
+        // RFC 6750: a refused bearer token says why
+        if (error.problem === 'unauthorized') {
+          res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+        }
+        return send(res, transportProblem(error.problem, error.message, problemContext));
+      }
+      console.error(`[${correlationId}] Unhandled error in HTTP adapter:`, error);
+      send(res, transportProblem('internal', 'An unexpected error occurred', problemContext));
+    }
+  });
+}
+
+// A client holding an expired or revoked token has to be able to sign in again with it still
+// attached, so public routes treat a refused token as no token
+async function actorFor(
+  req: IncomingMessage,
+  resolveActor: ActorResolver,
+  isPublic: boolean
+): Promise<Actor | undefined> {
+  try {
+    return await resolveActor(req);
+  } catch (error) {
+    if (isPublic && error instanceof HttpError && error.problem === 'unauthorized') return undefined;
+    throw error;
+  }
+}
+
+function transportProblem(
+  name: ProblemTypeName,
+  detail: string,
+  context: ProblemContext
+): HttpResponse<never> {
+  const problem = createProblem(name, detail, context);
+  return { status: problem.status, problem };
+}
+
+async function readJsonBody(req: IncomingMessage, maxBodyBytes: number): Promise<unknown> {
+  const contentType = req.headers['content-type'] ?? '';
+  if (!/^application\/json\b/i.test(contentType)) {
+    throw new HttpError('unsupportedMediaType', 'Content-Type must be application/json');
+  }
+
+  const declaredLength = Number(req.headers['content-length']);
+  if (declaredLength > maxBodyBytes) {
+    throw new HttpError('payloadTooLarge', `Request body exceeds ${maxBodyBytes} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    received += chunk.length;
+    if (received > maxBodyBytes) {
+      throw new HttpError('payloadTooLarge', `Request body exceeds ${maxBodyBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError('badRequest', 'Request body is not valid JSON');
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError('badRequest', 'Request body must be a JSON object');
+  }
+  return body;
+}
+
+function send(res: ServerResponse, response: HttpResponse<unknown>): void {
+  res.statusCode = response.status;
+  for (const [name, value] of Object.entries(response.headers ?? {})) {
+    res.setHeader(name, value);
+  }
+
+  if (response.problem) {
+    res.setHeader('Content-Type', `${PROBLEM_CONTENT_TYPE}; charset=utf-8`);
+    res.end(JSON.stringify(response.problem));
+    return;
+  }
+
+  if (response.data === undefined || response.data === null) {
+    res.end();
+    return;
+  }
+
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(response.data));
+}
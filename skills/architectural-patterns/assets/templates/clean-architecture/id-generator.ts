@@ -0,0 +1,122 @@
+/**
+ * Clean Architecture: ID Generator Port
+ * Time-ordered, collision-resistant identifiers - Swappable for deterministic fakes
+ */
+
+import { randomBytes } from 'node:crypto';
+import { Clock, SystemClock } from './clock';
+
+export interface IdGenerator {
+  next(): string;
+}
+
+type RandomSource = (size: number) => Uint8Array;
+
+// UUIDv7 (RFC 9562): 48-bit Unix ms timestamp, 12-bit counter, 62 random bits.
+// The counter keeps ids strictly increasing within the same millisecond.
+export class UuidV7Generator implements IdGenerator {
+  private lastTimestamp = -1;
+  private counter = 0;
+
+  constructor(
+    private clock: Clock = new SystemClock(),
+    private random: RandomSource = randomBytes
+  ) {}
+
+  next(): string {
+    let timestamp = this.clock.now().getTime();
+
+    if (timestamp > this.lastTimestamp) {
+      // Fresh millisecond: random counter start, leaving headroom before overflow
+      this.counter = this.random(2).reduce((acc, byte) => (acc << 8) | byte, 0) & 0x7ff;
+    } else {
+      // Same (or earlier) millisecond: stay on the last timestamp and count up
+      timestamp = this.lastTimestamp;
+      this.counter++;
+      if (this.counter > 0xfff) {
+        timestamp++;
+        this.counter = 0;
+      }
+    }
+    this.lastTimestamp = timestamp;
+
+    const bytes = new Uint8Array(16);
+    bytes.set(this.random(8), 8);
+    for (let i = 5; i >= 0; i--) {
+      bytes[i] = timestamp % 256;
+      timestamp = Math.floor(timestamp / 256);
+    }
+    bytes[6] = 0x70 | (this.counter >> 8);
+    bytes[7] = this.counter & 0xff;
+    bytes[8] = 0x80 | (bytes[8] & 0x3f);
+
+    const hex = Buffer.from(bytes).toString('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+}
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// ULID: 48-bit ms timestamp + 80 random bits in Crockford base32 (26 chars).
+// Monotonic: within one millisecond the random part is incremented instead of redrawn.
+export class UlidGenerator implements IdGenerator {
+  private lastTimestamp = -1;
+  private lastRandom = new Uint8Array(10);
+
+  constructor(
+    private clock: Clock = new SystemClock(),
+    private random: RandomSource = randomBytes
+  ) {}
+
+  next(): string {
+    let timestamp = this.clock.now().getTime();
+
+    if (timestamp > this.lastTimestamp) {
+      this.lastRandom = Uint8Array.from(this.random(10));
+    } else {
+      timestamp = this.lastTimestamp;
+      if (!incrementBytes(this.lastRandom)) {
+        throw new Error('ULID random component overflowed within one millisecond');
+      }
+    }
+    this.lastTimestamp = timestamp;
+
+    return encodeBase32(BigInt(timestamp), 10) + encodeBase32(bytesToBigInt(this.lastRandom), 16);
+  }
+}
+
+// Deterministic fake for tests: user_000001, user_000002, ...
+export class SequentialIdGenerator implements IdGenerator {
+  private sequence = 0;
+
+  constructor(private prefix: string = 'user_') {}
+
+  next(): string {
+    this.sequence++;
+    return `${this.prefix}${String(this.sequence).padStart(6, '0')}`;
+  }
+}
+
+function incrementBytes(bytes: Uint8Array): boolean {
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    if (bytes[i] < 0xff) {
+      bytes[i]++;
+      return true;
+    }
+    bytes[i] = 0;
+  }
+  return false;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+}
+
+function encodeBase32(value: bigint, length: number): string {
+  let output = '';
+  for (let i = 0; i < length; i++) {
+    output = CROCKFORD_BASE32[Number(value & 31n)] + output;
+    value >>= 5n;
+  }
+  return output;
+}
@@ -0,0 +1,72 @@
+/**
+ * Clean Architecture: Idempotency Keys (Interface Adapters Layer)
+ * Retried requests replay the first response - Pluggable store with a retention window
+ */
+
+import { createHash } from 'node:crypto';
+import { Clock } from './clock';
+
+// A key is held by the first request that claims it; response is set once that request finishes
+export interface IdempotencyRecord<R> {
+  fingerprint: string;
+  response?: R;
+  expiresAt: Date;
+}
+
+export interface IdempotencyStore<R> {
+  // Claims the key (returns null) unless a live record already holds it (returns that record)
+  claim(key: string, fingerprint: string): Promise<IdempotencyRecord<R> | null>;
+  complete(key: string, response: R): Promise<void>;
+  // Frees the key without storing anything, so the client may retry
+  release(key: string): Promise<void>;
+}
+
+export const DEFAULT_IDEMPOTENCY_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// In-Memory Store: Single-process only; expired records are purged lazily on claim
+export class InMemoryIdempotencyStore<R> implements IdempotencyStore<R> {
+  private records = new Map<string, IdempotencyRecord<R>>();
+
+  constructor(
+    private clock: Clock,
+    private retentionMs: number = DEFAULT_IDEMPOTENCY_RETENTION_MS
+  ) {}
+
+  async claim(key: string, fingerprint: string): Promise<IdempotencyRecord<R> | null> {
+    const now = this.clock.now().getTime();
+    for (const [storedKey, record] of this.records) {
+      if (record.expiresAt.getTime() <= now) this.records.delete(storedKey);
+    }
+
+    const existing = this.records.get(key);
+    if (existing) return { ...existing };
+
+    this.records.set(key, { fingerprint, expiresAt: new Date(now + this.retentionMs) });
+    return null;
+  }
+
+  async complete(key: string, response: R): Promise<void> {
+    const record = this.records.get(key);
+    if (record) record.response = response;
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+// Same JSON payload -> same fingerprint, whatever the key order
+export function requestFingerprint(payload: unknown): string {
+  return createHash('sha256').update(canonicalJson(payload)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -3,16 +3,105 @@
  * Shows how all layers work together
  */
 
-import { User, UserId } from './entities';
+import { Server } from 'node:http';
+import { IUserRepository, IUnitOfWorkFactory } from './use-cases';
 import {
-  CreateUserUseCase,
-  UpdateUserUseCase,
-  DeleteUserUseCase,
-  GetUserUseCase,
-  IUserRepository,
-} from './use-cases';
-import { UserController, CreateUserHttpRequest } from './controllers';
-import { InMemoryUserRepository } from './repositories';
+  UserController,
+  CreateUserHttpRequest,
+  ListUsersHttpQuery,
+  AuditLogHttpQuery,
+  ReportHttpQuery,
+  SignupsPerDayHttpQuery,
+  RegisterHttpRequest,
+  LoginHttpRequest,
+  ChangePasswordHttpRequest,
+} from './controllers';
+import { IAuditLog } from './audit-log';
+import {
+  ISqlExecutor,
+  RepositoryFactory,
+  RepositoryOptions,
+  SqlAuditLog,
+  SqlCredentialStore,
+  SqlOutbox,
+  SqlSessionStore,
+  SqlUserEventStore,
+  SqlUserReadModelStore,
+} from './repositories';
+import { EventSourcedUserRepository } from './event-sourced-repository';
+import { SqliteDatabaseConnection } from './sqlite';
+import { MigrationRunner } from './migrations';
+import { SqlUnitOfWorkFactory } from './unit-of-work';
+import { InProcessEventDispatcher } from './domain-events';
+import { IMessageBroker, IOutboxStore, InProcessMessageBroker, OutboxRelay } from './outbox';
+import { IUserReadModelStore } from './read-models';
+import { Clock } from './clock';
+import { IdGenerator } from './id-generator';
+import { bearerTokenActor, createHttpServer, HttpServerOptions } from './http-server';
+import { InMemoryUseCaseMetrics, StructuredLogger } from './use-case-pipeline';
+import { buildOpenApiDocument, toYaml } from './openapi';
+import { Container, ContainerModule } from './container';
+import { Actor } from './authorization';
+import { withCacheInvalidation } from './caching-repository';
+import { BulkFormat, TextSource, formatUsers, parseUserRows } from './bulk-formats';
+import { APPLICATION_MODULES, TOKENS } from './modules';
+import { ICredentialStore, ISessionStore } from './credentials';
+import { ContractResult } from './contracts';
+import { UserRepositoryFactory, runUserRepositoryContract } from './repository-contract';
+import { inMemoryErasureTarget, runErasureContract, sqlErasureTarget } from './erasure-contract';
+import {
+  inMemoryTenantTarget,
+  runTenantIsolationContract,
+  sqlTenantTarget,
+} from './tenant-isolation-contract';
+
+// Infrastructure choices; anything omitted falls back to in-memory / system defaults.
+// Tests pass FixedClock and SequentialIdGenerator for deterministic output,
+// or replace any single binding through overrides.
+export interface ApplicationOptions {
+  repository?: IUserRepository;
+  unitOfWork?: IUnitOfWorkFactory;
+  // Where audit queries read from; pass the log your unitOfWork writes to (e.g. SqlAuditLog)
+  auditLog?: IAuditLog;
+  // Where the relay reads from; likewise the outbox your unitOfWork writes to (e.g. SqlOutbox)
+  outbox?: IOutboxStore;
+  // Where the relay delivers events; an InProcessMessageBroker by default
+  broker?: IMessageBroker;
+  // Where projections write and report queries read (e.g. SqlUserReadModelStore)
+  readModels?: IUserReadModelStore;
+  // Where passwords and sign-in sessions are kept (e.g. SqlCredentialStore, SqlSessionStore)
+  credentials?: ICredentialStore;
+  sessions?: ISessionStore;
+  clock?: Clock;
+  idGenerator?: IdGenerator;
+  logger?: StructuredLogger;
+  overrides?: ContainerModule;
+}
+
+// Shorthand options are plain overrides of the default bindings
+function optionsModule(options: ApplicationOptions): ContainerModule {
+  return (container) => {
+    const { repository, unitOfWork, auditLog, outbox, broker, readModels, clock, idGenerator, logger } =
+      options;
+    const { credentials, sessions } = options;
+    if (repository) container.override(TOKENS.userRepository, () => repository);
+    if (auditLog) container.override(TOKENS.auditLog, () => auditLog);
+    if (outbox) container.override(TOKENS.outbox, () => outbox);
+    if (broker) container.override(TOKENS.messageBroker, () => broker);
+    if (readModels) container.override(TOKENS.readModels, () => readModels);
+    if (credentials) container.override(TOKENS.credentialStore, () => credentials);
+    if (sessions) container.override(TOKENS.sessionStore, () => sessions);
+    if (unitOfWork) {
+      container.override(TOKENS.unitOfWork, (c) =>
+        withCacheInvalidation(unitOfWork, c.resolve(TOKENS.userRepository))
+      );
+    }
+    if (clock) container.override(TOKENS.clock, () => clock);
+    if (idGenerator) container.override(TOKENS.idGenerator, () => idGenerator);
+    if (logger) container.override(TOKENS.logger, () => logger);
+    options.overrides?.(container);
+  };
+}
 
 /**
  * Application Setup (Composition Root)
@@ -20,77 +109,447 @@ import { InMemoryUserRepository } from './repositories';
  * This layer depends on all inner layers
  */
 export class Application {
-  private repository: IUserRepository;
+  readonly container: Container;
   private userController: UserController;
+  // Subscribe here to react to user changes (audit log, welcome email, ...)
+  readonly events: InProcessEventDispatcher;
+  // Per-use-case call counts and durations recorded by the pipeline
+  readonly metrics: InMemoryUseCaseMetrics;
+  // Delivers committed events to the broker: relayOnce() on demand, or start()/stop()
+  readonly outboxRelay: OutboxRelay;
 
-  constructor() {
-    // Create infrastructure layer
-    this.repository = new InMemoryUserRepository();
-
-    // Create use cases (application layer)
-    const createUserUseCase = new CreateUserUseCase(this.repository);
-    const updateUserUseCase = new UpdateUserUseCase(this.repository);
-    const deleteUserUseCase = new DeleteUserUseCase(this.repository);
-    const getUserUseCase = new GetUserUseCase(this.repository);
-
-    // Create controller (interface adapter layer)
-    this.userController = new UserController(
-      createUserUseCase,
-      updateUserUseCase,
-      deleteUserUseCase,
-      getUserUseCase
-    );
+  constructor(options: ApplicationOptions = {}) {
+    // Each layer registers its own bindings; options override single ones
+    this.container = new Container().load(...APPLICATION_MODULES, optionsModule(options));
+
+    this.userController = this.container.resolve(TOKENS.userController);
+    this.events = this.container.resolve(TOKENS.events);
+    this.metrics = this.container.resolve(TOKENS.metrics);
+    this.outboxRelay = this.container.resolve(TOKENS.outboxRelay);
+
+    // Read models follow every change committed through this application
+    this.container.resolve(TOKENS.userProjector).subscribeTo(this.events);
+    // Deleted users are signed out, erased ones lose their credentials
+    this.container.resolve(TOKENS.credentialRevoker).subscribeTo(this.events);
+  }
+
+  // Simulate HTTP endpoint (actor plays the part of the authenticated caller)
+  async createUser(request: CreateUserHttpRequest, actor?: Actor, idempotencyKey?: string) {
+    return this.userController.handleCreateUser(request, idempotencyKey, { actor });
+  }
+
+  async getUser(userId: string, actor?: Actor) {
+    return this.userController.handleGetUser(userId, { actor });
+  }
+
+  async listUsers(query: ListUsersHttpQuery = {}, actor?: Actor) {
+    return this.userController.handleListUsers(query, { actor });
+  }
+
+  async updateUser(userId: string, request: CreateUserHttpRequest, ifMatch?: string, actor?: Actor) {
+    return this.userController.handleUpdateUser(userId, request, ifMatch, { actor });
+  }
+
+  async deleteUser(userId: string, ifMatch?: string, actor?: Actor) {
+    return this.userController.handleDeleteUser(userId, ifMatch, { actor });
+  }
+
+  async restoreUser(userId: string, ifMatch?: string, actor?: Actor) {
+    return this.userController.handleRestoreUser(userId, ifMatch, { actor });
   }
 
-  // Simulate HTTP endpoint
-  async createUser(request: CreateUserHttpRequest) {
-    return this.userController.handleCreateUser(request);
+  async eraseUser(userId: string, ifMatch?: string, actor?: Actor) {
+    return this.userController.handleEraseUser(userId, ifMatch, { actor });
   }
 
-  async getUser(userId: string) {
-    return this.userController.handleGetUser(userId);
+  async exportUserData(userId: string, actor?: Actor) {
+    return this.userController.handleExportUserData(userId, { actor });
   }
 
-  async updateUser(userId: string, request: CreateUserHttpRequest) {
-    return this.userController.handleUpdateUser(userId, request);
+  async queryAuditLog(query: AuditLogHttpQuery = {}, actor?: Actor) {
+    return this.userController.handleQueryAuditLog(query, { actor });
   }
 
-  async deleteUser(userId: string) {
-    return this.userController.handleDeleteUser(userId);
+  // Dashboard reports, answered from the read models
+  async usersByDomain(query: ReportHttpQuery = {}, actor?: Actor) {
+    return this.userController.handleUsersByDomain(query, { actor });
   }
+
+  async signupsPerDay(query: SignupsPerDayHttpQuery = {}, actor?: Actor) {
+    return this.userController.handleSignupsPerDay(query, { actor });
+  }
+
+  async recentlyUpdatedUsers(query: ReportHttpQuery = {}, actor?: Actor) {
+    return this.userController.handleRecentlyUpdatedUsers(query, { actor });
+  }
+
+  // One user from the read models: no entity is loaded, so no version (and no ETag) either
+  async getUserView(userId: string, actor?: Actor) {
+    return this.container
+      .resolve(TOKENS.getUserView)
+      .execute({ userId, tenantId: tenantOf(actor), actor });
+  }
+
+  // Empty the actor's tenant's read models and replay its audit trail into them
+  async rebuildReadModels(actor?: Actor) {
+    return this.container
+      .resolve(TOKENS.rebuildReadModels)
+      .execute({ tenantId: tenantOf(actor), actor });
+  }
+
+  // Bulk import: every row is checked like a single create; the report lists each rejection
+  async importUsers(source: TextSource, format: BulkFormat, options: { dryRun?: boolean; actor?: Actor } = {}) {
+    return this.container.resolve(TOKENS.importUsers).execute({
+      rows: parseUserRows(source, format),
+      dryRun: options.dryRun,
+      tenantId: tenantOf(options.actor),
+      actor: options.actor,
+    });
+  }
+
+  // Bulk export: lines of CSV or NDJSON, streamed page by page
+  async exportUsers(format: BulkFormat, actor?: Actor) {
+    const result = await this.container
+      .resolve(TOKENS.exportUsers)
+      .execute({ tenantId: tenantOf(actor), actor });
+    return result.ok ? { ...result, value: formatUsers(result.value, format) } : result;
+  }
+
+  // Sign-in: no actor involved, the tenant is named explicitly (over HTTP, by X-Tenant-Id)
+  async register(request: RegisterHttpRequest, tenantId: string) {
+    return this.userController.handleRegister(request, { tenantId });
+  }
+
+  async login(request: LoginHttpRequest, tenantId: string) {
+    return this.userController.handleLogin(request, { tenantId });
+  }
+
+  async refreshSession(token: string) {
+    return this.userController.handleRefreshSession({ token }, {});
+  }
+
+  async logout(token: string) {
+    return this.userController.handleLogout({ token }, {});
+  }
+
+  async changePassword(userId: string, request: ChangePasswordHttpRequest, actor?: Actor) {
+    return this.userController.handleChangePassword(userId, request, { actor });
+  }
+
+  // The actor a bearer token stands for; what the HTTP adapter runs on every request carrying one
+  async authenticate(token: string) {
+    return this.container.resolve(TOKENS.authenticateSession).execute({ token });
+  }
+
+  // Real HTTP endpoints: GET|POST /users, GET|PUT|DELETE /users/:id,
+  // POST /users/:id/restore, POST /users/:id/erase, GET /users/:id/data-export, GET /audit-log,
+  // GET /reports/users-by-domain, /reports/signups-per-day, /reports/recently-updated-users,
+  // POST /auth/register, /auth/login, /auth/refresh, /auth/logout, PUT /users/:id/password.
+  // Callers authenticate with Authorization: Bearer <token>; behind a proxy that strips them, pass
+  // resolveActor: bearerTokenActor(authenticate, actorFromHeaders) to trust gateway headers too.
+  listen(port: number, options?: HttpServerOptions): Promise<Server> {
+    const server = createHttpServer(this.userController, {
+      resolveActor: bearerTokenActor(this.container.resolve(TOKENS.authenticateSession)),
+      ...options,
+    });
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, () => resolve(server));
+    });
+  }
+}
+
+// Use cases reached without a controller take the tenant from the actor. Without an actor
+// the empty tenant matches no one, and the policy refuses the call anyway.
+function tenantOf(actor: Actor | undefined): string {
+  return actor?.tenantId ?? '';
 }
 
+const ADMIN: Actor = { id: 'admin', roles: ['admin'], tenantId: 'acme' };
+const AUDITOR: Actor = { id: 'auditor', roles: ['auditor'], tenantId: 'acme' };
+const OTHER_TENANT_ADMIN: Actor = { id: 'admin', roles: ['admin'], tenantId: 'globex' };
+
 // Example usage
 export async function runExample() {
-  const app = new Application();
+  // Other systems hear about changes through the broker, fed by the outbox relay
+  const broker = new InProcessMessageBroker();
+  broker.subscribe('UserRegistered', (event, message) =>
+    console.log(`[broker] ${message.id} ${event.type} ${event.userId}`)
+  );
+  const app = new Application({ broker });
+
+  // Subscribers react to domain events without being coupled into use cases
+  app.events.subscribe('UserRegistered', (event) =>
+    console.log(`[email] Welcome ${event.name} <${event.email}>`)
+  );
+  app.events.subscribe('UserProfileChanged', (event) =>
+    console.log(`[audit] ${event.userId} changed`, event.changes)
+  );
+  app.events.subscribe('UserDeleted', (event) =>
+    console.log(`[audit] ${event.userId} deleted at ${event.occurredAt.toISOString()}`)
+  );
 
   console.log('=== Clean Architecture Example ===\n');
 
-  // Create user
-  const createResponse = await app.createUser({
-    name: 'John Doe',
-    email: 'john@example.com',
-  });
+  // Create user (only admins may create users)
+  const createResponse = await app.createUser(
+    {
+      name: 'John Doe',
+      email: 'john@example.com',
+    },
+    ADMIN
+  );
   console.log('Create User:', createResponse);
 
   if (createResponse.data) {
     const userId = createResponse.data.userId;
+    const self: Actor = { id: userId, roles: ['member'], tenantId: ADMIN.tenantId };
 
     // Get user
-    const getResponse = await app.getUser(userId);
+    const getResponse = await app.getUser(userId, self);
     console.log('\nGet User:', getResponse);
 
-    // Update user
-    const updateResponse = await app.updateUser(userId, {
-      name: 'Jane Doe',
-      email: 'jane@example.com',
-    });
+    // Other tenants cannot even tell the user exists: 404
+    console.log('\nOther Tenant Get:', await app.getUser(userId, OTHER_TENANT_ADMIN));
+
+    // Update own profile (If-Match carries the ETag we just read)
+    const updateResponse = await app.updateUser(
+      userId,
+      { name: 'Jane Doe', email: 'jane@example.com' },
+      getResponse.headers?.ETag,
+      self
+    );
     console.log('\nUpdate User:', updateResponse);
 
-    // Delete user
-    const deleteResponse = await app.deleteUser(userId);
+    // A second write with the stale ETag is rejected with 412
+    const staleResponse = await app.updateUser(
+      userId,
+      { name: 'Lost Update', email: 'lost@example.com' },
+      getResponse.headers?.ETag,
+      self
+    );
+    console.log('\nStale Update:', staleResponse);
+
+    // Auditors are read-only: 403
+    const forbiddenResponse = await app.deleteUser(userId, updateResponse.headers?.ETag, AUDITOR);
+    console.log('\nAuditor Delete:', forbiddenResponse);
+
+    // Delete user (soft delete: gone from reads, still restorable)
+    const deleteResponse = await app.deleteUser(userId, updateResponse.headers?.ETag, ADMIN);
     console.log('\nDelete User:', deleteResponse);
+    console.log('\nGet Deleted User:', await app.getUser(userId, ADMIN));
+
+    const restoreResponse = await app.restoreUser(userId, '*', ADMIN);
+    console.log('\nRestore User:', restoreResponse);
+
+    // Every change above, with who made it and the values before and after
+    const auditResponse = await app.queryAuditLog({ userId }, AUDITOR);
+    for (const entry of auditResponse.data?.entries ?? []) {
+      console.log(`[audit] ${entry.occurredAt} ${entry.action} by ${entry.actorId}`, {
+        before: entry.before,
+        after: entry.after,
+      });
+    }
+  }
+
+  console.log('\nOutbox Relay:', await app.outboxRelay.relayOnce());
+
+  // Query side: kept up to date by projections, rebuildable from the audit trail
+  console.log('\nUsers by Domain:', (await app.usersByDomain({}, AUDITOR)).data);
+  console.log('Recently Updated:', (await app.recentlyUpdatedUsers({ limit: '5' }, AUDITOR)).data);
+  console.log('Rebuild Read Models:', await app.rebuildReadModels(ADMIN));
+  console.log('Signups per Day:', (await app.signupsPerDay({}, AUDITOR)).data?.days.slice(-3));
+}
+
+// Bulk import with a dry run first, then export in the other format
+export async function runBulkExample() {
+  const app = new Application();
+  const csv = [
+    'name,email',
+    'Ada Lovelace,ada@example.com',
+    '"Hopper, Grace",grace@example.com',
+    ',nobody@example.com',
+    'Ada Again,ada@example.com',
+  ].join('\r\n');
+
+  const preview = await app.importUsers([csv], 'csv', { dryRun: true, actor: ADMIN });
+  console.log('Dry Run:', JSON.stringify(preview, null, 2));
+
+  const imported = await app.importUsers([csv], 'csv', { actor: ADMIN });
+  console.log('Import:', JSON.stringify(imported, null, 2));
+
+  const exported = await app.exportUsers('ndjson', AUDITOR);
+  if (exported.ok) {
+    for await (const line of exported.value) process.stdout.write(line);
+  }
+}
+
+// Same application backed by an embedded SQLite database
+export async function runSqliteExample(location = ':memory:') {
+  const db = new SqliteDatabaseConnection(location);
+  const applied = await new MigrationRunner(db).migrateToLatest();
+  console.log('Applied migrations:', applied.map((m) => m.name));
+
+  // Reads of single users are served from a cache; SQL writes invalidate it on commit
+  const app = new Application({
+    repository: RepositoryFactory.createUserRepository('sqlite', db, { cache: { ttlMs: 60_000 } }),
+    unitOfWork: new SqlUnitOfWorkFactory(db),
+    auditLog: new SqlAuditLog(db),
+    outbox: new SqlOutbox(db),
+    readModels: new SqlUserReadModelStore(db),
+    credentials: new SqlCredentialStore(db),
+    sessions: new SqlSessionStore(db),
+  });
+  const createResponse = await app.createUser(
+    {
+      name: 'John Doe',
+      email: 'john@example.com',
+    },
+    ADMIN
+  );
+  console.log('Create User:', createResponse);
+
+  if (createResponse.data) {
+    console.log('Get User:', await app.getUser(createResponse.data.userId, ADMIN));
+    console.log('Audit Log:', await app.queryAuditLog({ userId: createResponse.data.userId }, ADMIN));
+  }
+  console.log('Outbox Relay:', await app.outboxRelay.relayOnce());
+
+  await db.close();
+}
+
+// Same use cases on an event-sourced repository: every save appends to the user's stream
+export async function runEventSourcedExample() {
+  const db = new SqliteDatabaseConnection();
+  await new MigrationRunner(db).migrateToLatest();
+
+  const events = (executor: ISqlExecutor) => new SqlUserEventStore(executor);
+  const users = (executor: ISqlExecutor) =>
+    new EventSourcedUserRepository(events(executor), { snapshotEvery: 2 });
+  const app = new Application({
+    repository: users(db),
+    unitOfWork: new SqlUnitOfWorkFactory(db, users),
+    auditLog: new SqlAuditLog(db),
+    outbox: new SqlOutbox(db),
+    readModels: new SqlUserReadModelStore(db),
+  });
+
+  const created = await app.createUser({ name: 'Jane Doe', email: 'jane@example.com' }, ADMIN);
+  const userId = created.data!.userId;
+  await app.updateUser(userId, { name: 'Jane Smith', email: 'jane@example.com' }, '"1"', ADMIN);
+  await app.deleteUser(userId, '"2"', ADMIN);
+  await app.restoreUser(userId, '"3"', ADMIN);
+
+  console.log('Event Stream:', await events(db).load(userId, 0));
+  console.log('Latest Snapshot:', await events(db).latestSnapshot(userId));
+  console.log('Replayed User:', await app.getUser(userId, ADMIN));
+
+  await db.close();
+}
+
+// Sign up, log in and use the session: tokens rotate on refresh, a password change signs out
+// every other session, and repeated wrong passwords lock the account
+export async function runAuthExample() {
+  const app = new Application({ logger: { log: () => {} } });
+  const tenantId = ADMIN.tenantId;
+  const credentials = { email: 'ada@example.com', password: 'correct horse battery' };
+
+  const registered = await app.register({ name: 'Ada Lovelace', ...credentials }, tenantId);
+  console.log('Register:', registered);
+
+  const login = await app.login(credentials, tenantId);
+  console.log('\nLogin:', login);
+  console.log('Wrong Password:', await app.login({ ...credentials, password: 'not my password' }, tenantId));
+
+  const token = login.data!.token;
+  const actor = await app.authenticate(token);
+  console.log('\nAuthenticated As:', actor);
+  if (actor.ok) console.log('Get Self:', await app.getUser(actor.value.id, actor.value));
+
+  // Rotation: the refreshed token works, the old one is spent - and reusing it signs out everywhere
+  const refreshed = await app.refreshSession(token);
+  console.log('\nRefresh:', refreshed.status, 'Old Token:', (await app.authenticate(token)).ok);
+  console.log('Reuse Old Token:', await app.refreshSession(token));
+  console.log('New Token After Reuse:', (await app.authenticate(refreshed.data!.token)).ok);
+
+  const again = await app.login(credentials, tenantId);
+  const self = await app.authenticate(again.data!.token);
+  const changed = await app.changePassword(
+    again.data!.userId,
+    { currentPassword: credentials.password, newPassword: 'an even longer passphrase' },
+    self.ok ? self.value : undefined
+  );
+  console.log('\nChange Password:', changed.status);
+  console.log('Old Session After Change:', (await app.authenticate(again.data!.token)).ok);
+  console.log('Logout:', (await app.logout(changed.data!.token)).status);
+
+  for (let attempt = 1; attempt <= 5; attempt++) {
+    await app.login({ ...credentials, password: `guess number ${attempt}` }, tenantId);
   }
+  const locked = await app.login({ ...credentials, password: 'an even longer passphrase' }, tenantId);
+  console.log('\nAfter 5 Failures, Right Password:', locked.status, locked.problem?.detail);
+}
+
+// Every contract suite against the in-memory and SQLite adapters. Throws when a check fails,
+// so CI can run it as the test step: node -e "require('./index').runContractsExample()"
+export async function runContractsExample() {
+  const connect = () => new SqliteDatabaseConnection();
+  const memory = (options: RepositoryOptions = {}): UserRepositoryFactory => async () => ({
+    repository: RepositoryFactory.createUserRepository('memory', undefined, options),
+  });
+  const sqlite = (options: RepositoryOptions = {}): UserRepositoryFactory => async () => {
+    const db = connect();
+    await new MigrationRunner(db).migrateToLatest();
+    return {
+      repository: RepositoryFactory.createUserRepository('sqlite', db, options),
+      dispose: () => db.close(),
+    };
+  };
+  const eventSourced: RepositoryOptions = { eventSourced: { snapshotEvery: 2 } };
+  const cached: RepositoryOptions = { cache: true };
+
+  const suites: [string, () => Promise<ContractResult[]>][] = [
+    ['Repository (memory)', () => runUserRepositoryContract(memory())],
+    ['Repository (SQLite)', () => runUserRepositoryContract(sqlite())],
+    ['Event-Sourced Repository (memory)', () => runUserRepositoryContract(memory(eventSourced))],
+    ['Event-Sourced Repository (SQLite)', () => runUserRepositoryContract(sqlite(eventSourced))],
+    ['Cached Repository (memory)', () => runUserRepositoryContract(memory(cached))],
+    ['Cached Repository (SQLite)', () => runUserRepositoryContract(sqlite(cached))],
+    ['Erasure (memory)', () => runErasureContract(inMemoryErasureTarget)],
+    ['Erasure (SQLite)', () => runErasureContract(sqlErasureTarget(connect))],
+    ['Tenant Isolation (memory)', () => runTenantIsolationContract(inMemoryTenantTarget)],
+    ['Tenant Isolation (SQLite)', () => runTenantIsolationContract(sqlTenantTarget(connect))],
+  ];
+
+  const failures: string[] = [];
+  for (const [suite, run] of suites) {
+    const results = await run();
+    const failed = results.filter((result) => !result.passed);
+    console.log(`${suite}: ${results.length - failed.length}/${results.length} passed`);
+    failures.push(...failed.map((result) => `${suite} - ${result.name}: ${result.error}`));
+  }
+  if (failures.length > 0) throw new Error(`Contract checks failed:\n${failures.join('\n')}`);
+}
+
+// Serve the application over HTTP, e.g. register, sign in and send the token:
+// curl -X POST localhost:3000/auth/register -H 'X-Tenant-Id: acme' -H 'Content-Type: application/json' \
+//   -d '{"name":"Ada","email":"ada@example.com","password":"correct horse battery"}'
+// curl -X POST localhost:3000/auth/login -H 'X-Tenant-Id: acme' -H 'Content-Type: application/json' \
+//   -d '{"email":"ada@example.com","password":"correct horse battery"}'
+// curl localhost:3000/users/<userId> -H 'Authorization: Bearer <token>'
+export async function startServer(port = 3000) {
+  const app = new Application();
+  const server = await app.listen(port);
+  app.outboxRelay.start();
+  server.once('close', () => app.outboxRelay.stop());
+  console.log(`Clean Architecture API listening on http://localhost:${port}`);
+  return server;
+}
+
+// OpenAPI 3.1 for client generators, e.g. exportOpenApi('yaml') > openapi.yaml
+export function exportOpenApi(format: 'json' | 'yaml' = 'json'): string {
+  const document = buildOpenApiDocument();
+  return format === 'yaml' ? `${toYaml(document)}\n` : JSON.stringify(document, null, 2);
 }
 
 /**
@@ -0,0 +1,340 @@
+/**
+ * Clean Architecture: Schema Migrations (Frameworks & Drivers Layer)
+ * Versioned, forward-only schema changes applied in order
+ */
+
+import { IDatabaseConnection, integerColumn, textColumn } from './repositories';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+// Migrations for the users table - append new versions, never edit applied ones
+export const USER_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_users',
+    up: `CREATE TABLE users (
+           id TEXT PRIMARY KEY,
+           name TEXT NOT NULL,
+           email TEXT NOT NULL,
+           created_at TEXT NOT NULL,
+           updated_at TEXT NOT NULL
+         )`,
+  },
+  {
+    version: 2,
+    name: 'index_users_email',
+    up: 'CREATE INDEX idx_users_email ON users (email)',
+  },
+  {
+    version: 3,
+    name: 'add_users_version',
+    up: 'ALTER TABLE users ADD COLUMN version INTEGER NOT NULL DEFAULT 1',
+  },
+  {
+    version: 4,
+    name: 'add_users_deleted_at',
+    up: 'ALTER TABLE users ADD COLUMN deleted_at TEXT',
+  },
+  {
+    version: 5,
+    name: 'create_user_audit_log',
+    up: `CREATE TABLE user_audit_log (
+           id TEXT PRIMARY KEY,
+           user_id TEXT NOT NULL,
+           actor_id TEXT,
+           action TEXT NOT NULL,
+           before TEXT,
+           after TEXT,
+           occurred_at TEXT NOT NULL
+         )`,
+  },
+  {
+    version: 6,
+    name: 'index_user_audit_log_user_id',
+    up: 'CREATE INDEX idx_user_audit_log_user_id ON user_audit_log (user_id, id)',
+  },
+  {
+    version: 7,
+    name: 'add_users_erased_at',
+    up: 'ALTER TABLE users ADD COLUMN erased_at TEXT',
+  },
+  {
+    version: 8,
+    name: 'create_user_outbox',
+    up: `CREATE TABLE user_outbox (
+           id TEXT PRIMARY KEY,
+           user_id TEXT NOT NULL,
+           type TEXT NOT NULL,
+           payload TEXT NOT NULL,
+           status TEXT NOT NULL,
+           attempts INTEGER NOT NULL DEFAULT 0,
+           next_attempt_at TEXT NOT NULL,
+           last_error TEXT,
+           delivered_at TEXT,
+           dead_lettered_at TEXT
+         )`,
+  },
+  {
+    version: 9,
+    name: 'index_user_outbox_status',
+    up: 'CREATE INDEX idx_user_outbox_status ON user_outbox (status, user_id, id)',
+  },
+  {
+    version: 10,
+    name: 'create_user_views',
+    up: `CREATE TABLE user_views (
+           id TEXT PRIMARY KEY,
+           name TEXT NOT NULL,
+           email TEXT NOT NULL,
+           domain TEXT NOT NULL,
+           created_at TEXT NOT NULL,
+           updated_at TEXT NOT NULL,
+           deleted_at TEXT
+         )`,
+  },
+  {
+    version: 11,
+    name: 'index_user_views_updated_at',
+    up: 'CREATE INDEX idx_user_views_updated_at ON user_views (updated_at, id)',
+  },
+  {
+    version: 12,
+    name: 'create_user_daily_signups',
+    up: `CREATE TABLE user_daily_signups (
+           day TEXT PRIMARY KEY,
+           signups INTEGER NOT NULL
+         )`,
+  },
+  {
+    version: 13,
+    name: 'create_user_events',
+    up: `CREATE TABLE user_events (
+           user_id TEXT NOT NULL,
+           sequence INTEGER NOT NULL,
+           version INTEGER NOT NULL,
+           type TEXT NOT NULL,
+           payload TEXT NOT NULL,
+           recorded_at TEXT NOT NULL,
+           PRIMARY KEY (user_id, sequence)
+         )`,
+  },
+  {
+    version: 14,
+    name: 'create_user_snapshots',
+    up: `CREATE TABLE user_snapshots (
+           user_id TEXT PRIMARY KEY,
+           sequence INTEGER NOT NULL,
+           state TEXT NOT NULL
+         )`,
+  },
+  {
+    version: 15,
+    name: 'create_user_email_lookup',
+    up: `CREATE TABLE user_email_lookup (
+           user_id TEXT PRIMARY KEY,
+           email TEXT NOT NULL
+         )`,
+  },
+  {
+    version: 16,
+    name: 'index_user_email_lookup_email',
+    up: 'CREATE INDEX idx_user_email_lookup_email ON user_email_lookup (email)',
+  },
+  // Tenancy: rows written before it belong to the 'default' tenant
+  {
+    version: 17,
+    name: 'add_users_tenant_id',
+    up: "ALTER TABLE users ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default'",
+  },
+  {
+    version: 18,
+    name: 'index_users_tenant_id_email',
+    up: 'CREATE INDEX idx_users_tenant_id_email ON users (tenant_id, email)',
+  },
+  {
+    version: 19,
+    name: 'add_user_audit_log_tenant_id',
+    up: "ALTER TABLE user_audit_log ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default'",
+  },
+  {
+    version: 20,
+    name: 'add_user_views_tenant_id',
+    up: "ALTER TABLE user_views ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default'",
+  },
+  {
+    version: 21,
+    name: 'index_user_views_tenant_id_updated_at',
+    up: 'CREATE INDEX idx_user_views_tenant_id_updated_at ON user_views (tenant_id, updated_at, id)',
+  },
+  // Signups are counted per tenant: the table is rebuilt around a (tenant_id, day) key
+  {
+    version: 22,
+    name: 'create_user_tenant_daily_signups',
+    up: `CREATE TABLE user_tenant_daily_signups (
+           tenant_id TEXT NOT NULL,
+           day TEXT NOT NULL,
+           signups INTEGER NOT NULL,
+           PRIMARY KEY (tenant_id, day)
+         )`,
+  },
+  {
+    version: 23,
+    name: 'copy_user_daily_signups',
+    up: `INSERT INTO user_tenant_daily_signups (tenant_id, day, signups)
+         SELECT 'default', day, signups FROM user_daily_signups`,
+  },
+  {
+    version: 24,
+    name: 'drop_user_daily_signups',
+    up: 'DROP TABLE user_daily_signups',
+  },
+  {
+    version: 25,
+    name: 'rename_user_tenant_daily_signups',
+    up: 'ALTER TABLE user_tenant_daily_signups RENAME TO user_daily_signups',
+  },
+  {
+    version: 26,
+    name: 'add_user_events_tenant_id',
+    up: "ALTER TABLE user_events ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default'",
+  },
+  {
+    version: 27,
+    name: 'add_user_email_lookup_tenant_id',
+    up: "ALTER TABLE user_email_lookup ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default'",
+  },
+  {
+    version: 28,
+    name: 'index_user_email_lookup_tenant_id_email',
+    up: 'CREATE INDEX idx_user_email_lookup_tenant_id_email ON user_email_lookup (tenant_id, email)',
+  },
+  // The database backs up the per-tenant email rule. Deleted users keep their email for a
+  // restore, which checks it again, so they are left out.
+  {
+    version: 29,
+    name: 'unique_users_tenant_id_email',
+    up: `CREATE UNIQUE INDEX idx_users_tenant_id_email_unique ON users (tenant_id, email)
+         WHERE deleted_at IS NULL`,
+  },
+  // Credentials and sessions sit beside users: the users table never holds a password
+  {
+    version: 30,
+    name: 'create_user_credentials',
+    up: `CREATE TABLE user_credentials (
+           user_id TEXT PRIMARY KEY,
+           tenant_id TEXT NOT NULL,
+           password_hash TEXT NOT NULL,
+           roles TEXT NOT NULL,
+           failed_attempts INTEGER NOT NULL,
+           locked_until TEXT,
+           updated_at TEXT NOT NULL
+         )`,
+  },
+  {
+    version: 31,
+    name: 'create_user_sessions',
+    up: `CREATE TABLE user_sessions (
+           id TEXT PRIMARY KEY,
+           user_id TEXT NOT NULL,
+           tenant_id TEXT NOT NULL,
+           created_at TEXT NOT NULL,
+           expires_at TEXT NOT NULL,
+           revoked_at TEXT,
+           replaced_by TEXT
+         )`,
+  },
+  {
+    version: 32,
+    name: 'index_user_sessions_user_id',
+    up: 'CREATE INDEX idx_user_sessions_user_id ON user_sessions (user_id)',
+  },
+];
+
+// Migration Runner: Records applied versions in schema_migrations
+export class MigrationRunner {
+  private migrations: Migration[];
+
+  constructor(
+    private db: IDatabaseConnection,
+    migrations: Migration[] = USER_MIGRATIONS
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.assertUniqueVersions();
+  }
+
+  async applied(): Promise<AppliedMigration[]> {
+    await this.ensureMigrationsTable();
+    const rows = await this.db.query(
+      'SELECT version, name, applied_at FROM schema_migrations ORDER BY version',
+      []
+    );
+    return rows.map((row) => ({
+      version: integerColumn(row, 'version'),
+      name: textColumn(row, 'name'),
+      appliedAt: textColumn(row, 'applied_at'),
+    }));
+  }
+
+  async currentVersion(): Promise<number> {
+    const applied = await this.applied();
+    return applied.length > 0 ? applied[applied.length - 1].version : 0;
+  }
+
+  // Apply every pending migration up to targetVersion; returns what ran
+  async migrateToLatest(targetVersion: number = Infinity): Promise<Migration[]> {
+    const current = await this.currentVersion();
+    const pending = this.migrations.filter(
+      (migration) => migration.version > current && migration.version <= targetVersion
+    );
+
+    for (const migration of pending) {
+      const transaction = await this.db.begin();
+      try {
+        await transaction.execute(migration.up, []);
+        await transaction.execute(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+        await transaction.commit();
+      } catch (error) {
+        await transaction.rollback();
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    return pending;
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.db.execute(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+         version INTEGER PRIMARY KEY,
+         name TEXT NOT NULL,
+         applied_at TEXT NOT NULL
+       )`,
+      []
+    );
+  }
+
+  private assertUniqueVersions(): void {
+    for (let i = 1; i < this.migrations.length; i++) {
+      if (this.migrations[i].version === this.migrations[i - 1].version) {
+        throw new Error(`Duplicate migration version: ${this.migrations[i].version}`);
+      }
+    }
+  }
+}
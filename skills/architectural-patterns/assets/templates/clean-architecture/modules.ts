@@ -0,0 +1,497 @@
+/**
+ * Clean Architecture: Container Modules (Composition Root)
+ * Tokens and registrations per layer - Application loads these instead of hand wiring
+ */
+
+import { ContainerModule, Resolver, token } from './container';
+import {
+  CreateUserRequest,
+  CreateUserResponse,
+  CreateUserUseCase,
+  DeleteUserRequest,
+  DeleteUserUseCase,
+  EraseUserRequest,
+  EraseUserResponse,
+  EraseUserUseCase,
+  ExportUserDataRequest,
+  ExportUserDataUseCase,
+  GetUserRequest,
+  GetUserUseCase,
+  IUnitOfWorkFactory,
+  IUserRepository,
+  ListUsersRequest,
+  ListUsersResponse,
+  ListUsersUseCase,
+  RestoreUserRequest,
+  RestoreUserResponse,
+  RestoreUserUseCase,
+  UpdateUserRequest,
+  UpdateUserResponse,
+  UpdateUserUseCase,
+  UseCase,
+  UserDataExport,
+} from './use-cases';
+import {
+  ExportUsersRequest,
+  ExportUsersUseCase,
+  ImportUsersReport,
+  ImportUsersRequest,
+  ImportUsersUseCase,
+} from './bulk-users';
+import { User } from './entities';
+import { HttpResponse, UserController } from './controllers';
+import {
+  InMemoryAuditLog,
+  InMemoryCredentialStore,
+  InMemoryOutbox,
+  InMemorySessionStore,
+  InMemoryUserReadModelStore,
+  InMemoryUserRepository,
+} from './repositories';
+import {
+  IAuditLog,
+  QueryAuditLogRequest,
+  QueryAuditLogResponse,
+  QueryAuditLogUseCase,
+} from './audit-log';
+import {
+  DailySignups,
+  DomainUserCount,
+  GetUserViewRequest,
+  GetUserViewUseCase,
+  IUserReadModelStore,
+  RebuildReadModelsRequest,
+  RebuildReadModelsResponse,
+  RebuildReadModelsUseCase,
+  RecentlyUpdatedUsersRequest,
+  RecentlyUpdatedUsersUseCase,
+  SignupsPerDayRequest,
+  SignupsPerDayUseCase,
+  UserProjector,
+  UserView,
+  UsersByDomainRequest,
+  UsersByDomainUseCase,
+} from './read-models';
+import { withCacheInvalidation } from './caching-repository';
+import { InMemoryUnitOfWorkFactory } from './unit-of-work';
+import { InProcessEventDispatcher } from './domain-events';
+import { IMessageBroker, IOutboxStore, InProcessMessageBroker, OutboxRelay } from './outbox';
+import { Clock, SystemClock } from './clock';
+import { IdGenerator, UuidV7Generator } from './id-generator';
+import {
+  ConsoleJsonLogger,
+  InMemoryUseCaseMetrics,
+  StructuredLogger,
+  UseCaseMiddleware,
+  UseCasePipeline,
+  authorize,
+  logging,
+  retry,
+  timing,
+} from './use-case-pipeline';
+import { Actor, AuthorizationPolicy, DEFAULT_USER_POLICY, UserAction } from './authorization';
+import { IdempotencyStore, InMemoryIdempotencyStore } from './idempotency';
+import { PasswordHasher, ScryptPasswordHasher } from './password-hasher';
+import { HmacSessionTokenSigner, SessionTokenSigner } from './session-tokens';
+import {
+  AuthenticateSessionRequest,
+  AuthenticateSessionUseCase,
+  ChangePasswordRequest,
+  ChangePasswordUseCase,
+  CredentialRevoker,
+  DEFAULT_LOCKOUT_POLICY,
+  ICredentialStore,
+  ISessionStore,
+  LockoutPolicy,
+  LoginRequest,
+  LoginUseCase,
+  LogoutRequest,
+  LogoutUseCase,
+  PasswordVerifier,
+  RefreshSessionRequest,
+  RefreshSessionUseCase,
+  RegisterRequest,
+  RegisterUseCase,
+  SessionIssuer,
+  SessionResponse,
+} from './credentials';
+
+export const TOKENS = {
+  // Infrastructure
+  clock: token<Clock>('Clock'),
+  idGenerator: token<IdGenerator>('IdGenerator'),
+  logger: token<StructuredLogger>('StructuredLogger'),
+  userRepository: token<IUserRepository>('IUserRepository'),
+  auditLog: token<IAuditLog>('IAuditLog'),
+  outbox: token<IOutboxStore>('IOutboxStore'),
+  messageBroker: token<IMessageBroker>('IMessageBroker'),
+  outboxRelay: token<OutboxRelay>('OutboxRelay'),
+  readModels: token<IUserReadModelStore>('IUserReadModelStore'),
+  userProjector: token<UserProjector>('UserProjector'),
+  unitOfWork: token<IUnitOfWorkFactory>('IUnitOfWorkFactory'),
+  events: token<InProcessEventDispatcher>('InProcessEventDispatcher'),
+  metrics: token<InMemoryUseCaseMetrics>('InMemoryUseCaseMetrics'),
+  authorizationPolicy: token<AuthorizationPolicy>('AuthorizationPolicy'),
+  credentialStore: token<ICredentialStore>('ICredentialStore'),
+  sessionStore: token<ISessionStore>('ISessionStore'),
+  passwordHasher: token<PasswordHasher>('PasswordHasher'),
+  sessionTokenSigner: token<SessionTokenSigner>('SessionTokenSigner'),
+  lockoutPolicy: token<LockoutPolicy>('LockoutPolicy'),
+  credentialRevoker: token<CredentialRevoker>('CredentialRevoker'),
+
+  // Application
+  readPipeline: token<UseCasePipeline>('ReadPipeline'),
+  writePipeline: token<UseCasePipeline>('WritePipeline'),
+  createUser: token<UseCase<CreateUserRequest, CreateUserResponse>>('CreateUser'),
+  updateUser: token<UseCase<UpdateUserRequest, UpdateUserResponse>>('UpdateUser'),
+  deleteUser: token<UseCase<DeleteUserRequest, void>>('DeleteUser'),
+  getUser: token<UseCase<GetUserRequest, User>>('GetUser'),
+  listUsers: token<UseCase<ListUsersRequest, ListUsersResponse>>('ListUsers'),
+  restoreUser: token<UseCase<RestoreUserRequest, RestoreUserResponse>>('RestoreUser'),
+  eraseUser: token<UseCase<EraseUserRequest, EraseUserResponse>>('EraseUser'),
+  exportUserData: token<UseCase<ExportUserDataRequest, UserDataExport>>('ExportUserData'),
+  queryAuditLog: token<UseCase<QueryAuditLogRequest, QueryAuditLogResponse>>('QueryAuditLog'),
+  importUsers: token<UseCase<ImportUsersRequest, ImportUsersReport>>('ImportUsers'),
+  exportUsers: token<UseCase<ExportUsersRequest, AsyncIterable<User>>>('ExportUsers'),
+  rebuildReadModels: token<UseCase<RebuildReadModelsRequest, RebuildReadModelsResponse>>('RebuildReadModels'),
+  getUserView: token<UseCase<GetUserViewRequest, UserView>>('GetUserView'),
+  usersByDomain: token<UseCase<UsersByDomainRequest, DomainUserCount[]>>('UsersByDomain'),
+  signupsPerDay: token<UseCase<SignupsPerDayRequest, DailySignups[]>>('SignupsPerDay'),
+  recentlyUpdatedUsers: token<UseCase<RecentlyUpdatedUsersRequest, UserView[]>>('RecentlyUpdatedUsers'),
+  passwordVerifier: token<PasswordVerifier>('PasswordVerifier'),
+  sessionIssuer: token<SessionIssuer>('SessionIssuer'),
+  register: token<UseCase<RegisterRequest, CreateUserResponse>>('Register'),
+  login: token<UseCase<LoginRequest, SessionResponse>>('Login'),
+  changePassword: token<UseCase<ChangePasswordRequest, SessionResponse>>('ChangePassword'),
+  logout: token<UseCase<LogoutRequest, void>>('Logout'),
+  refreshSession: token<UseCase<RefreshSessionRequest, SessionResponse>>('RefreshSession'),
+  authenticateSession: token<UseCase<AuthenticateSessionRequest, Actor>>('AuthenticateSession'),
+
+  // Interface adapters
+  idempotencyStore: token<IdempotencyStore<HttpResponse<unknown>>>('IdempotencyStore'),
+  userController: token<UserController>('UserController'),
+} as const;
+
+// In-memory storage and system time unless a binding is overridden
+export const infrastructureModule: ContainerModule = (container) => {
+  container
+    .bind(TOKENS.clock, () => new SystemClock())
+    .bind(TOKENS.idGenerator, (c) => new UuidV7Generator(c.resolve(TOKENS.clock)))
+    .bind(TOKENS.logger, () => new ConsoleJsonLogger())
+    .bind(TOKENS.userRepository, () => new InMemoryUserRepository())
+    .bind(TOKENS.auditLog, (c) => new InMemoryAuditLog(new UuidV7Generator(c.resolve(TOKENS.clock))))
+    .bind(TOKENS.outbox, (c) => new InMemoryOutbox(new UuidV7Generator(c.resolve(TOKENS.clock))))
+    .bind(TOKENS.unitOfWork, (c) => {
+      const repository = c.resolve(TOKENS.userRepository);
+      return withCacheInvalidation(
+        new InMemoryUnitOfWorkFactory(
+          repository,
+          c.resolve(TOKENS.auditLog),
+          c.resolve(TOKENS.outbox),
+          c.resolve(TOKENS.credentialStore)
+        ),
+        repository
+      );
+    })
+    .bind(TOKENS.messageBroker, () => new InProcessMessageBroker())
+    // Not started here: call start() where the process should deliver events in the background
+    .bind(
+      TOKENS.outboxRelay,
+      (c) =>
+        new OutboxRelay(c.resolve(TOKENS.outbox), c.resolve(TOKENS.messageBroker), c.resolve(TOKENS.clock), {
+          logger: c.resolve(TOKENS.logger),
+        })
+    )
+    .bind(TOKENS.readModels, () => new InMemoryUserReadModelStore())
+    .bind(TOKENS.userProjector, (c) => new UserProjector(c.resolve(TOKENS.readModels)))
+    .bind(TOKENS.events, () => new InProcessEventDispatcher())
+    .bind(TOKENS.metrics, () => new InMemoryUseCaseMetrics())
+    .bind(TOKENS.authorizationPolicy, () => DEFAULT_USER_POLICY)
+    .bind(TOKENS.credentialStore, () => new InMemoryCredentialStore())
+    .bind(TOKENS.sessionStore, () => new InMemorySessionStore())
+    .bind(TOKENS.passwordHasher, () => new ScryptPasswordHasher())
+    // Random per process: override with a configured secret once tokens must survive a restart
+    // or be checked by more than one instance
+    .bind(TOKENS.sessionTokenSigner, () => new HmacSessionTokenSigner())
+    .bind(TOKENS.lockoutPolicy, () => DEFAULT_LOCKOUT_POLICY)
+    .bind(
+      TOKENS.credentialRevoker,
+      (c) => new CredentialRevoker(c.resolve(TOKENS.credentialStore), c.resolve(TOKENS.sessionStore))
+    );
+};
+
+// Authorization middleware: asks the policy about the request's actor before the use case runs
+function guard<Req extends { actor?: Actor; tenantId?: string }>(
+  policy: AuthorizationPolicy,
+  action: UserAction,
+  targetUserId?: (request: Req) => string
+): UseCaseMiddleware<Req> {
+  return authorize((call) =>
+    policy.check({
+      actor: call.request.actor,
+      action,
+      targetUserId: targetUserId?.(call.request),
+      tenantId: call.request.tenantId,
+    })
+  );
+}
+
+// Cross-cutting concerns, declared once: every use case is logged, timed and authorized,
+// writes also retry transient storage failures (each attempt is a fresh unit of work)
+export const useCaseModule: ContainerModule = (container) => {
+  const policy = (c: Resolver) => c.resolve(TOKENS.authorizationPolicy);
+
+  container
+    .bind(
+      TOKENS.readPipeline,
+      (c) => new UseCasePipeline([logging(c.resolve(TOKENS.logger)), timing(c.resolve(TOKENS.metrics))])
+    )
+    .bind(TOKENS.writePipeline, (c) => c.resolve(TOKENS.readPipeline).with(retry()))
+    .bind(TOKENS.createUser, (c) =>
+      c.resolve(TOKENS.writePipeline).wrap(
+        'CreateUser',
+        new CreateUserUseCase(c.resolve(TOKENS.unitOfWork), c.resolve(TOKENS.events), c.resolve(TOKENS.clock)),
+        guard(policy(c), 'user:create')
+      )
+    )
+    .bind(TOKENS.updateUser, (c) =>
+      c.resolve(TOKENS.writePipeline).wrap(
+        'UpdateUser',
+        new UpdateUserUseCase(c.resolve(TOKENS.unitOfWork), c.resolve(TOKENS.events), c.resolve(TOKENS.clock)),
+        guard(policy(c), 'user:update', (request) => request.userId)
+      )
+    )
+    .bind(TOKENS.deleteUser, (c) =>
+      c.resolve(TOKENS.writePipeline).wrap(
+        'DeleteUser',
+        new DeleteUserUseCase(c.resolve(TOKENS.unitOfWork), c.resolve(TOKENS.events), c.resolve(TOKENS.clock)),
+        guard(policy(c), 'user:delete', (request) => request.userId)
+      )
+    )
+    .bind(TOKENS.restoreUser, (c) =>
+      c.resolve(TOKENS.writePipeline).wrap(
+        'RestoreUser',
+        new RestoreUserUseCase(c.resolve(TOKENS.unitOfWork), c.resolve(TOKENS.events), c.resolve(TOKENS.clock)),
+        guard(policy(c), 'user:restore', (request) => request.userId)
+      )
+    )
+    .bind(TOKENS.eraseUser, (c) =>
+      c.resolve(TOKENS.writePipeline).wrap(
+        'EraseUser',
+        new EraseUserUseCase(c.resolve(TOKENS.unitOfWork), c.resolve(TOKENS.events), c.resolve(TOKENS.clock)),
+        guard(policy(c), 'user:erase', (request) => request.userId)
+      )
+    )
+    .bind(TOKENS.exportUserData, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'ExportUserData',
+        new ExportUserDataUseCase(
+          c.resolve(TOKENS.userRepository),
+          c.resolve(TOKENS.auditLog),
+          c.resolve(TOKENS.clock)
+        ),
+        guard(policy(c), 'user:export-data', (request) => request.userId)
+      )
+    )
+    .bind(TOKENS.getUser, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'GetUser',
+        new GetUserUseCase(c.resolve(TOKENS.userRepository)),
+        guard(policy(c), 'user:read', (request) => request.userId)
+      )
+    )
+    .bind(TOKENS.listUsers, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'ListUsers',
+        new ListUsersUseCase(c.resolve(TOKENS.userRepository)),
+        guard(policy(c), 'user:list')
+      )
+    )
+    .bind(TOKENS.queryAuditLog, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'QueryAuditLog',
+        new QueryAuditLogUseCase(c.resolve(TOKENS.auditLog)),
+        guard(policy(c), 'audit:read')
+      )
+    )
+    // Import is not retried as a whole: each row goes through CreateUser, which retries itself
+    .bind(TOKENS.importUsers, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'ImportUsers',
+        new ImportUsersUseCase(
+          c.resolve(TOKENS.createUser),
+          c.resolve(TOKENS.unitOfWork),
+          c.resolve(TOKENS.idGenerator),
+          c.resolve(TOKENS.clock)
+        ),
+        guard(policy(c), 'user:create')
+      )
+    )
+    .bind(TOKENS.exportUsers, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'ExportUsers',
+        new ExportUsersUseCase(c.resolve(TOKENS.userRepository)),
+        guard(policy(c), 'user:list')
+      )
+    )
+    // Query side: read models only, never the repository or the entity
+    .bind(TOKENS.rebuildReadModels, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'RebuildReadModels',
+        new RebuildReadModelsUseCase(c.resolve(TOKENS.auditLog), c.resolve(TOKENS.readModels)),
+        guard(policy(c), 'read-model:rebuild')
+      )
+    )
+    .bind(TOKENS.getUserView, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'GetUserView',
+        new GetUserViewUseCase(c.resolve(TOKENS.readModels)),
+        guard(policy(c), 'user:read', (request) => request.userId)
+      )
+    )
+    .bind(TOKENS.usersByDomain, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'UsersByDomain',
+        new UsersByDomainUseCase(c.resolve(TOKENS.readModels)),
+        guard(policy(c), 'user:list')
+      )
+    )
+    .bind(TOKENS.signupsPerDay, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'SignupsPerDay',
+        new SignupsPerDayUseCase(c.resolve(TOKENS.readModels), c.resolve(TOKENS.clock)),
+        guard(policy(c), 'user:list')
+      )
+    )
+    .bind(TOKENS.recentlyUpdatedUsers, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'RecentlyUpdatedUsers',
+        new RecentlyUpdatedUsersUseCase(c.resolve(TOKENS.readModels)),
+        guard(policy(c), 'user:list')
+      )
+    )
+    // Sign-in: nobody is signed in yet, so only the password change has an actor to authorize.
+    // None of them retries: a retried login would count one wrong password twice.
+    .bind(
+      TOKENS.passwordVerifier,
+      (c) =>
+        new PasswordVerifier(
+          c.resolve(TOKENS.credentialStore),
+          c.resolve(TOKENS.passwordHasher),
+          c.resolve(TOKENS.clock),
+          c.resolve(TOKENS.lockoutPolicy)
+        )
+    )
+    .bind(
+      TOKENS.sessionIssuer,
+      (c) =>
+        new SessionIssuer(
+          c.resolve(TOKENS.sessionStore),
+          c.resolve(TOKENS.sessionTokenSigner),
+          c.resolve(TOKENS.idGenerator),
+          c.resolve(TOKENS.clock)
+        )
+    )
+    // Creates the user unguarded: registering is how someone without an actor gets one
+    .bind(TOKENS.register, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'Register',
+        new RegisterUseCase(
+          c.resolve(TOKENS.unitOfWork),
+          c.resolve(TOKENS.events),
+          c.resolve(TOKENS.passwordHasher),
+          c.resolve(TOKENS.clock)
+        )
+      )
+    )
+    .bind(TOKENS.login, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'Login',
+        new LoginUseCase(
+          c.resolve(TOKENS.userRepository),
+          c.resolve(TOKENS.credentialStore),
+          c.resolve(TOKENS.passwordVerifier),
+          c.resolve(TOKENS.sessionIssuer)
+        )
+      )
+    )
+    .bind(TOKENS.changePassword, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'ChangePassword',
+        new ChangePasswordUseCase(
+          c.resolve(TOKENS.credentialStore),
+          c.resolve(TOKENS.sessionStore),
+          c.resolve(TOKENS.passwordHasher),
+          c.resolve(TOKENS.passwordVerifier),
+          c.resolve(TOKENS.sessionIssuer),
+          c.resolve(TOKENS.clock)
+        ),
+        guard(policy(c), 'user:change-password', (request) => request.userId)
+      )
+    )
+    .bind(TOKENS.logout, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'Logout',
+        new LogoutUseCase(
+          c.resolve(TOKENS.sessionStore),
+          c.resolve(TOKENS.sessionTokenSigner),
+          c.resolve(TOKENS.clock)
+        )
+      )
+    )
+    .bind(TOKENS.refreshSession, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'RefreshSession',
+        new RefreshSessionUseCase(
+          c.resolve(TOKENS.credentialStore),
+          c.resolve(TOKENS.sessionStore),
+          c.resolve(TOKENS.sessionTokenSigner),
+          c.resolve(TOKENS.sessionIssuer),
+          c.resolve(TOKENS.clock)
+        )
+      )
+    )
+    .bind(TOKENS.authenticateSession, (c) =>
+      c.resolve(TOKENS.readPipeline).wrap(
+        'AuthenticateSession',
+        new AuthenticateSessionUseCase(
+          c.resolve(TOKENS.credentialStore),
+          c.resolve(TOKENS.sessionStore),
+          c.resolve(TOKENS.sessionTokenSigner),
+          c.resolve(TOKENS.clock)
+        )
+      )
+    );
+};
+
+export const interfaceModule: ContainerModule = (container) => {
+  container
+    .bind(TOKENS.idempotencyStore, (c) => new InMemoryIdempotencyStore(c.resolve(TOKENS.clock)))
+    .bind(
+      TOKENS.userController,
+      (c) =>
+        new UserController(
+          c.resolve(TOKENS.createUser),
+          c.resolve(TOKENS.updateUser),
+          c.resolve(TOKENS.deleteUser),
+          c.resolve(TOKENS.getUser),
+          c.resolve(TOKENS.listUsers),
+          c.resolve(TOKENS.restoreUser),
+          c.resolve(TOKENS.eraseUser),
+          c.resolve(TOKENS.exportUserData),
+          c.resolve(TOKENS.queryAuditLog),
+          c.resolve(TOKENS.usersByDomain),
+          c.resolve(TOKENS.signupsPerDay),
+          c.resolve(TOKENS.recentlyUpdatedUsers),
+          c.resolve(TOKENS.register),
+          c.resolve(TOKENS.login),
+          c.resolve(TOKENS.changePassword),
+          c.resolve(TOKENS.logout),
+          c.resolve(TOKENS.refreshSession),
+          c.resolve(TOKENS.idGenerator),
+          c.resolve(TOKENS.idempotencyStore)
+        )
+    );
+};
+
+export const APPLICATION_MODULES: ContainerModule[] = [infrastructureModule, useCaseModule, interfaceModule];
@@ -0,0 +1,17 @@
+/**
+ * Clean Architecture: Mutex (Frameworks & Drivers Layer)
+ * Serialises async critical sections - One holder at a time, FIFO
+ */
+
+export class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+
+  async acquire(): Promise<() => void> {
+    let release!: () => void;
+    const next = new Promise<void>((resolve) => (release = resolve));
+    const previous = this.tail;
+    this.tail = previous.then(() => next);
+    await previous;
+    return release;
+  }
+}
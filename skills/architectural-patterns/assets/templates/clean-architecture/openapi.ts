@@ -0,0 +1,271 @@
+/**
+ * Clean Architecture: OpenAPI Document (Interface Adapters Layer)
+ * OpenAPI 3.1 generated from the route registry - Clients are generated, never hand-copied
+ */
+
+import {
+  AUDIT_ENTRY_RESPONSE_SCHEMA,
+  AUDIT_LOG_RESPONSE_SCHEMA,
+  CHANGE_PASSWORD_REQUEST_SCHEMA,
+  CREATE_USER_REQUEST_SCHEMA,
+  LOGIN_REQUEST_SCHEMA,
+  RECENTLY_UPDATED_USERS_RESPONSE_SCHEMA,
+  REGISTER_REQUEST_SCHEMA,
+  SESSION_RESPONSE_SCHEMA,
+  SESSION_TOKEN_REQUEST_SCHEMA,
+  SIGNUPS_PER_DAY_RESPONSE_SCHEMA,
+  USERS_BY_DOMAIN_RESPONSE_SCHEMA,
+  USER_DATA_EXPORT_SCHEMA,
+  USER_ID_RESPONSE_SCHEMA,
+  USER_LIST_RESPONSE_SCHEMA,
+  USER_RESPONSE_SCHEMA,
+  USER_VIEW_SCHEMA,
+} from './controllers';
+import {
+  PROBLEM_CONTENT_TYPE,
+  PROBLEM_DETAILS_SCHEMA,
+  ProblemTypeName,
+  describeProblemType,
+} from './problems';
+import { Schema } from './schema';
+import { ParameterDefinition, RouteDefinition, USER_ROUTES } from './user-routes';
+
+export type OpenApiDocument = Record<string, unknown>;
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+const DEFAULT_INFO: OpenApiInfo = {
+  title: 'Users API',
+  version: '1.0.0',
+  description: 'Clean Architecture user service',
+};
+
+// Shared schemas are emitted once under components and referenced everywhere else
+const COMPONENT_SCHEMAS: Record<string, Schema> = {
+  CreateUserRequest: CREATE_USER_REQUEST_SCHEMA,
+  User: USER_RESPONSE_SCHEMA,
+  UserId: USER_ID_RESPONSE_SCHEMA,
+  UserList: USER_LIST_RESPONSE_SCHEMA,
+  AuditEntry: AUDIT_ENTRY_RESPONSE_SCHEMA,
+  AuditLog: AUDIT_LOG_RESPONSE_SCHEMA,
+  UserDataExport: USER_DATA_EXPORT_SCHEMA,
+  UserView: USER_VIEW_SCHEMA,
+  UsersByDomain: USERS_BY_DOMAIN_RESPONSE_SCHEMA,
+  SignupsPerDay: SIGNUPS_PER_DAY_RESPONSE_SCHEMA,
+  RecentlyUpdatedUsers: RECENTLY_UPDATED_USERS_RESPONSE_SCHEMA,
+  RegisterRequest: REGISTER_REQUEST_SCHEMA,
+  LoginRequest: LOGIN_REQUEST_SCHEMA,
+  ChangePasswordRequest: CHANGE_PASSWORD_REQUEST_SCHEMA,
+  SessionTokenRequest: SESSION_TOKEN_REQUEST_SCHEMA,
+  Session: SESSION_RESPONSE_SCHEMA,
+  Problem: PROBLEM_DETAILS_SCHEMA,
+};
+
+// Failures the HTTP adapter itself can produce before a route runs
+// (a request presenting a bad bearer token is refused with 401 unless the route is public)
+const BODY_PROBLEMS: ProblemTypeName[] = ['badRequest', 'payloadTooLarge', 'unsupportedMediaType'];
+const AUTH_PROBLEMS: ProblemTypeName[] = ['unauthorized'];
+const COMMON_PROBLEMS: ProblemTypeName[] = ['internal'];
+
+export function buildOpenApiDocument(
+  routes: RouteDefinition[] = USER_ROUTES,
+  info: OpenApiInfo = DEFAULT_INFO
+): OpenApiDocument {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation(route) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    // A bearer token from /auth/login; gateway identity headers only count when the server opts in.
+    // Public operations override this with an empty list.
+    security: [{ bearerAuth: [] }],
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(COMPONENT_SCHEMAS).map(([name, schema]) => [name, toJsonSchema(schema, false)])
+      ),
+      parameters: {
+        ActorId: {
+          name: 'X-Actor-Id',
+          in: 'header',
+          description: 'Authenticated user id from a trusted gateway; ignored unless the server opts in',
+          schema: { type: 'string' },
+        },
+        ActorRoles: {
+          name: 'X-Actor-Roles',
+          in: 'header',
+          description: 'Comma-separated roles of the actor: admin, member, auditor',
+          schema: { type: 'string', example: 'member' },
+        },
+        TenantId: {
+          name: 'X-Tenant-Id',
+          in: 'header',
+          description:
+            "The actor's tenant, set by the gateway; every read and write is scoped to it. " +
+            'Register and login, which run before anyone is signed in, take it from the client.',
+          schema: { type: 'string', pattern: '^[\\w.-]{1,64}$' },
+        },
+        CorrelationId: {
+          name: 'X-Correlation-Id',
+          in: 'header',
+          description: 'Echoed back and quoted in problem details; generated when absent',
+          schema: { type: 'string', pattern: '^[\\w.-]{1,128}$' },
+        },
+      },
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Token from /auth/login or /auth/refresh',
+        },
+      },
+      headers: {
+        CorrelationId: {
+          description: 'Correlation id of this request',
+          schema: { type: 'string' },
+        },
+      },
+    },
+  };
+}
+
+// "/users/:id" -> "/users/{id}"
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function operation(route: RouteDefinition): Record<string, unknown> {
+  const correlationHeader = { 'X-Correlation-Id': { $ref: '#/components/headers/CorrelationId' } };
+  const responses: Record<string, unknown> = {};
+
+  for (const [status, response] of Object.entries(route.responses)) {
+    const headers: Record<string, unknown> = { ...correlationHeader };
+    for (const [name, header] of Object.entries(response.headers ?? {})) {
+      headers[name] = { description: header.description, schema: toJsonSchema(header.schema) };
+    }
+    responses[status] = {
+      description: response.description,
+      headers,
+      ...(response.schema && {
+        content: { 'application/json': { schema: toJsonSchema(response.schema) } },
+      }),
+    };
+  }
+
+  // Problems sharing a status (e.g. 404 route / resource) collapse into one response
+  const problems = [
+    ...route.problems,
+    ...(route.requestBody ? BODY_PROBLEMS : []),
+    ...(route.public ? [] : AUTH_PROBLEMS),
+    ...COMMON_PROBLEMS,
+  ];
+  const byStatus = new Map<number, string[]>();
+  for (const name of problems) {
+    const { status, type, title } = describeProblemType(name);
+    byStatus.set(status, [...(byStatus.get(status) ?? []), `${title} (${type})`]);
+  }
+  for (const [status, descriptions] of [...byStatus].sort(([a], [b]) => a - b)) {
+    responses[status] = {
+      description: [...new Set(descriptions)].join('; '),
+      headers: correlationHeader,
+      content: { [PROBLEM_CONTENT_TYPE]: { schema: { $ref: '#/components/schemas/Problem' } } },
+    };
+  }
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: ['users'],
+    parameters: [
+      ...(route.parameters ?? []).map(parameter),
+      { $ref: '#/components/parameters/ActorId' },
+      { $ref: '#/components/parameters/ActorRoles' },
+      { $ref: '#/components/parameters/TenantId' },
+      { $ref: '#/components/parameters/CorrelationId' },
+    ],
+    ...(route.requestBody && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toJsonSchema(route.requestBody) } },
+      },
+    }),
+    ...(route.public && { security: [] }),
+    responses,
+  };
+}
+
+function parameter(definition: ParameterDefinition): Record<string, unknown> {
+  return {
+    name: definition.name,
+    in: definition.in,
+    required: definition.required ?? false,
+    ...(definition.description && { description: definition.description }),
+    schema: toJsonSchema(definition.schema),
+  };
+}
+
+// Schema -> JSON Schema 2020-12 (what OpenAPI 3.1 embeds); nullable becomes a type union
+function toJsonSchema(schema: Schema, useRefs = true): Record<string, unknown> {
+  if (useRefs) {
+    const name = Object.keys(COMPONENT_SCHEMAS).find((key) => COMPONENT_SCHEMAS[key] === schema);
+    if (name) return { $ref: `#/components/schemas/${name}` };
+  }
+
+  const { nullable, ...rest } = schema;
+  const json: Record<string, unknown> = { ...rest };
+  if (nullable) json.type = [schema.type, 'null'];
+  if (schema.type === 'array') json.items = toJsonSchema(schema.items);
+  if (schema.type === 'object') {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [key, toJsonSchema(property)])
+    );
+    if (schema.required) json.required = [...schema.required];
+  }
+  if ('enum' in schema && schema.enum) json.enum = [...schema.enum];
+  return json;
+}
+
+// Minimal YAML emitter: every string is double-quoted, so no value needs escaping rules of its own
+export function toYaml(value: unknown, indent = 0): string {
+  const pad = '  '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return value
+      .map((item) => {
+        const nested = isContainer(item) && !isEmpty(item);
+        return nested ? `${pad}-\n${toYaml(item, indent + 1)}` : `${pad}- ${toYaml(item, indent + 1)}`;
+      })
+      .join('\n');
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) return '{}';
+    return entries
+      .map(([key, item]) => {
+        const name = /^[A-Za-z_][\w-]*$/.test(key) ? key : JSON.stringify(key);
+        const nested = isContainer(item) && !isEmpty(item);
+        return nested ? `${pad}${name}:\n${toYaml(item, indent + 1)}` : `${pad}${name}: ${toYaml(item, indent + 1)}`;
+      })
+      .join('\n');
+  }
+
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function isContainer(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function isEmpty(value: object): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+}
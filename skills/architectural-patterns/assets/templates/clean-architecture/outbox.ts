@@ -0,0 +1,283 @@
+/**
+ * Clean Architecture: Transactional Outbox (Application Layer)
+ * Events are stored with the change that raised them, then relayed to a broker - At-least-once delivery
+ */
+
+import { UserDomainEvent, UserDomainEventType } from './domain-events';
+import { RedactedIdentity } from './audit-log';
+import { Clock } from './clock';
+import { StructuredLogger } from './use-case-pipeline';
+
+export type OutboxStatus = 'pending' | 'delivered' | 'dead';
+
+export interface OutboxMessage {
+  // Time-ordered: messages are relayed in the order they were enqueued
+  id: string;
+  event: UserDomainEvent;
+  status: OutboxStatus;
+  // Failed delivery attempts so far
+  attempts: number;
+  // Earliest time the relay may try (again); an event is due as soon as it occurred
+  nextAttemptAt: Date;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  deadLetteredAt: Date | null;
+}
+
+export interface OutboxFailure {
+  error: string;
+  at: Date;
+  // Null moves the message to the dead letters instead of scheduling another attempt
+  retryAt: Date | null;
+}
+
+// Outbox Port: What a unit of work writes, in the same transaction as the users it saves.
+// redactUser is the right-to-erasure rewrite, as on the audit log: queued events keep
+// their type, user id and time but lose the name and email they carried.
+export interface IOutbox {
+  enqueue(events: readonly UserDomainEvent[]): Promise<void>;
+  redactUser(userId: string, identity: RedactedIdentity): Promise<void>;
+}
+
+// Outbox Store: What the relay works through
+export interface IOutboxStore extends IOutbox {
+  // Pending messages due at now, oldest first. A message is held back while an older one
+  // for the same user waits for a retry, so each user's events arrive in order.
+  due(now: Date, limit: number): Promise<OutboxMessage[]>;
+  markDelivered(id: string, at: Date): Promise<void>;
+  // Counts the attempt and either reschedules the message or dead-letters it
+  markFailed(id: string, failure: OutboxFailure): Promise<void>;
+  // Oldest first; each needs a person (or a fix and a replay) to resolve it
+  deadLetters(limit: number): Promise<OutboxMessage[]>;
+}
+
+export function redactEvent(event: UserDomainEvent, identity: RedactedIdentity): UserDomainEvent {
+  switch (event.type) {
+    case 'UserRegistered':
+      return { ...event, name: identity.name, email: identity.email };
+    case 'UserProfileChanged': {
+      const { name, email } = event.changes;
+      return {
+        ...event,
+        changes: {
+          ...(name && { name: { from: identity.name, to: identity.name } }),
+          ...(email && { email: { from: identity.email, to: identity.email } }),
+        },
+      };
+    }
+    default:
+      return event;
+  }
+}
+
+// Reference implementation of the due rule for adapters that hold messages in memory
+export function dueMessages(messages: readonly OutboxMessage[], now: Date, limit: number): OutboxMessage[] {
+  const waiting = new Set<string>();
+  const due: OutboxMessage[] = [];
+
+  for (const message of [...messages].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))) {
+    if (due.length >= limit) break;
+    if (message.status !== 'pending' || waiting.has(message.event.userId)) continue;
+
+    if (message.nextAttemptAt.getTime() <= now.getTime()) {
+      due.push(message);
+    } else {
+      waiting.add(message.event.userId);
+    }
+  }
+  return due;
+}
+
+// Broker Port: Where relayed events go (Kafka, RabbitMQ, SNS, ... or in-process for tests).
+// Delivery is at-least-once: a crash between publish and markDelivered sends the message again.
+export interface BrokerMessage {
+  // Same on every redelivery: consumers deduplicate on it
+  id: string;
+  type: UserDomainEventType;
+  // Ordering/partition key: every event for one user shares it
+  key: string;
+  event: UserDomainEvent;
+}
+
+export interface IMessageBroker {
+  publish(message: BrokerMessage): Promise<void>;
+}
+
+// Thrown by a broker (or consumer) for a message that can never succeed, e.g. one the
+// receiving schema rejects: it is dead-lettered at once instead of retried
+export class PoisonMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PoisonMessageError';
+  }
+}
+
+export type BrokerHandler<E extends UserDomainEvent> = (
+  event: E,
+  message: BrokerMessage
+) => void | Promise<void>;
+
+// In-Process Broker: Typed subscriptions like InProcessEventDispatcher, but a failing
+// handler fails the publish, so the relay retries the message (handlers must be idempotent)
+export class InProcessMessageBroker implements IMessageBroker {
+  private handlers = new Map<UserDomainEventType, BrokerHandler<UserDomainEvent>[]>();
+
+  // Returns an unsubscribe function
+  subscribe<K extends UserDomainEventType>(
+    type: K,
+    handler: BrokerHandler<Extract<UserDomainEvent, { type: K }>>
+  ): () => void {
+    // Filed under its event type, so publish only ever hands it events of that type
+    const stored = handler as BrokerHandler<UserDomainEvent>;
+    this.handlers.set(type, [...(this.handlers.get(type) ?? []), stored]);
+
+    return () => {
+      this.handlers.set(
+        type,
+        (this.handlers.get(type) ?? []).filter((h) => h !== stored)
+      );
+    };
+  }
+
+  async publish(message: BrokerMessage): Promise<void> {
+    for (const handler of this.handlers.get(message.type) ?? []) {
+      await handler(message.event, message);
+    }
+  }
+}
+
+// Backoff: Delay before the retry that follows a given failed attempt (1-based)
+export type Backoff = (attempt: number) => number;
+
+// Doubles per attempt up to a cap: 1s, 2s, 4s, ... 5 min by default
+export function exponentialBackoff(baseDelayMs = 1_000, maxDelayMs = 300_000): Backoff {
+  return (attempt) => Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+}
+
+export interface OutboxRelayOptions {
+  batchSize?: number;
+  // Failed attempts before a message is dead-lettered
+  maxAttempts?: number;
+  backoff?: Backoff;
+  // Wait between polls once the outbox has nothing due
+  pollIntervalMs?: number;
+  logger?: StructuredLogger;
+}
+
+export interface OutboxRelayReport {
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+// Outbox Relay: Polls the store, publishes due messages and records each outcome.
+// Run one relay per store; a second one would publish the same messages twice.
+export class OutboxRelay {
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly backoff: Backoff;
+  private readonly pollIntervalMs: number;
+  private readonly logger?: StructuredLogger;
+
+  private inFlight: Promise<OutboxRelayReport> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(
+    private store: IOutboxStore,
+    private broker: IMessageBroker,
+    private clock: Clock,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? 100;
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.backoff = options.backoff ?? exponentialBackoff();
+    this.pollIntervalMs = options.pollIntervalMs ?? 1_000;
+    this.logger = options.logger;
+  }
+
+  // One pass over the due messages. A call while a pass is running joins that pass.
+  relayOnce(): Promise<OutboxRelayReport> {
+    this.inFlight ??= this.relayBatch().finally(() => (this.inFlight = null));
+    return this.inFlight;
+  }
+
+  // Poll in the background until stop(); a full batch is followed straight away by the next
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  // Resolves once the pass in progress, if any, has finished
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.inFlight?.catch(() => undefined);
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      let delay = this.pollIntervalMs;
+      try {
+        const report = await this.relayOnce();
+        if (report.delivered + report.retried + report.deadLettered >= this.batchSize) delay = 0;
+      } catch (error) {
+        this.logger?.log({ level: 'error', message: 'outbox relay poll failed', error: describe(error) });
+      }
+      if (this.running) this.schedule(delay);
+    }, delayMs);
+  }
+
+  private async relayBatch(): Promise<OutboxRelayReport> {
+    const report: OutboxRelayReport = { delivered: 0, retried: 0, deadLettered: 0 };
+    const blocked = new Set<string>();
+
+    for (const message of await this.store.due(this.clock.now(), this.batchSize)) {
+      const key = message.event.userId;
+      // A retry scheduled earlier in this batch holds back the user's later events too
+      if (blocked.has(key)) continue;
+
+      try {
+        await this.broker.publish({ id: message.id, type: message.event.type, key, event: message.event });
+      } catch (error) {
+        const outcome = await this.recordFailure(message, error);
+        report[outcome]++;
+        if (outcome === 'retried') blocked.add(key);
+        continue;
+      }
+
+      // A crash before this line means the message is published again on the next pass
+      await this.store.markDelivered(message.id, this.clock.now());
+      report.delivered++;
+    }
+    return report;
+  }
+
+  private async recordFailure(
+    message: OutboxMessage,
+    error: unknown
+  ): Promise<'retried' | 'deadLettered'> {
+    const attempts = message.attempts + 1;
+    const poison = error instanceof PoisonMessageError || attempts >= this.maxAttempts;
+    const at = this.clock.now();
+    const retryAt = poison ? null : new Date(at.getTime() + this.backoff(attempts));
+
+    await this.store.markFailed(message.id, { error: describe(error), at, retryAt });
+    this.logger?.log({
+      level: poison ? 'error' : 'warn',
+      message: poison ? 'outbox message dead-lettered' : 'outbox delivery failed',
+      messageId: message.id,
+      eventType: message.event.type,
+      attempts,
+      retryAt: retryAt?.toISOString() ?? null,
+      error: describe(error),
+    });
+    return poison ? 'deadLettered' : 'retried';
+  }
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
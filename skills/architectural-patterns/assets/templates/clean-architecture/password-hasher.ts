@@ -0,0 +1,61 @@
+/**
+ * Clean Architecture: Password Hasher Port
+ * Memory-hard key derivation from the Node standard library - Swappable for a cheap test setting
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+
+// Hashes are self-describing strings: the salt and cost travel with them, so changing the
+// defaults later never locks out users whose hashes were made with the old ones
+export interface PasswordHasher {
+  hash(password: string): Promise<string>;
+  verify(password: string, encoded: string): Promise<boolean>;
+}
+
+export interface ScryptCost {
+  // CPU/memory cost, a power of two; memory use is about 128 * N * r bytes
+  N: number;
+  r: number;
+  p: number;
+}
+
+// 2^15 * 8 * 128 bytes = 32 MiB per hash, a few tens of milliseconds on a server core
+export const DEFAULT_SCRYPT_COST: ScryptCost = { N: 2 ** 15, r: 8, p: 1 };
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+// scrypt$N$r$p$salt$key, salt and key in base64url
+export class ScryptPasswordHasher implements PasswordHasher {
+  constructor(private cost: ScryptCost = DEFAULT_SCRYPT_COST) {}
+
+  async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    const key = await derive(password, salt, KEY_BYTES, this.cost);
+    const { N, r, p } = this.cost;
+    return ['scrypt', N, r, p, salt.toString('base64url'), key.toString('base64url')].join('$');
+  }
+
+  async verify(password: string, encoded: string): Promise<boolean> {
+    const [scheme, N, r, p, salt, key] = encoded.split('$');
+    if (scheme !== 'scrypt' || key === undefined) return false;
+
+    const expected = Buffer.from(key, 'base64url');
+    const actual = await derive(password, Buffer.from(salt, 'base64url'), expected.length, {
+      N: Number(N),
+      r: Number(r),
+      p: Number(p),
+    });
+    return timingSafeEqual(actual, expected);
+  }
+}
+
+function derive(password: string, salt: Buffer, length: number, cost: ScryptCost): Promise<Buffer> {
+  // Node refuses more than 32 MiB by default; allow what the cost needs, with headroom
+  const maxmem = 256 * cost.N * cost.r;
+  return new Promise((resolve, reject) =>
+    scrypt(password.normalize('NFKC'), salt, length, { ...cost, maxmem }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    )
+  );
+}
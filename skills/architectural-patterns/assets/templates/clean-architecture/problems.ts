@@ -0,0 +1,138 @@
+/**
+ * Clean Architecture: Problem Details (Interface Adapters Layer)
+ * RFC 9457 error bodies - One machine-readable shape for every failure
+ */
+
+import { DomainError, DomainErrorKind, FieldError, ValidationFailedError } from './errors';
+import { ObjectSchema } from './schema';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+// Extension member for field-level validation failures
+export type FieldProblem = FieldError;
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  correlationId?: string;
+  errors?: FieldProblem[];
+}
+
+export const PROBLEM_DETAILS_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', example: '/problems/validation-failed' },
+    title: { type: 'string', example: 'Validation failed' },
+    status: { type: 'integer', example: 422 },
+    detail: { type: 'string' },
+    instance: { type: 'string' },
+    correlationId: { type: 'string', description: 'Also sent as the X-Correlation-Id header' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { field: { type: 'string' }, message: { type: 'string' } },
+        required: ['field', 'message'],
+      },
+    },
+  },
+  required: ['type', 'title', 'status'],
+} as const satisfies ObjectSchema;
+
+// Per-request metadata echoed into problems (and logs)
+export interface ProblemContext {
+  correlationId?: string;
+  instance?: string;
+}
+
+interface ProblemType {
+  slug: string;
+  title: string;
+  status: number;
+}
+
+// Problem types are relative URIs, resolved against the API's base URL
+const PROBLEM_TYPES = {
+  badRequest: { slug: 'bad-request', title: 'Bad request', status: 400 },
+  unauthorized: { slug: 'unauthorized', title: 'Unauthorized', status: 401 },
+  forbidden: { slug: 'forbidden', title: 'Forbidden', status: 403 },
+  notFound: { slug: 'not-found', title: 'Resource not found', status: 404 },
+  routeNotFound: { slug: 'route-not-found', title: 'Route not found', status: 404 },
+  methodNotAllowed: { slug: 'method-not-allowed', title: 'Method not allowed', status: 405 },
+  conflict: { slug: 'conflict', title: 'Conflict', status: 409 },
+  idempotencyKeyInUse: {
+    slug: 'idempotency-key-in-use',
+    title: 'A request with this idempotency key is still in progress',
+    status: 409,
+  },
+  versionMismatch: { slug: 'version-mismatch', title: 'Precondition failed', status: 412 },
+  payloadTooLarge: { slug: 'payload-too-large', title: 'Payload too large', status: 413 },
+  unsupportedMediaType: { slug: 'unsupported-media-type', title: 'Unsupported media type', status: 415 },
+  validationFailed: { slug: 'validation-failed', title: 'Validation failed', status: 422 },
+  idempotencyKeyReused: {
+    slug: 'idempotency-key-reused',
+    title: 'Idempotency key was used with a different payload',
+    status: 422,
+  },
+  preconditionRequired: { slug: 'precondition-required', title: 'Precondition required', status: 428 },
+  internal: { slug: 'internal', title: 'Internal server error', status: 500 },
+} satisfies Record<string, ProblemType>;
+
+export type ProblemTypeName = keyof typeof PROBLEM_TYPES;
+
+// Type URI, title and status of a problem, e.g. for API docs
+export function describeProblemType(name: ProblemTypeName): { type: string; title: string; status: number } {
+  const { slug, title, status } = PROBLEM_TYPES[name];
+  return { type: `/problems/${slug}`, title, status };
+}
+
+// Single source of truth for domain error -> problem type (and so HTTP status)
+const PROBLEM_BY_ERROR_KIND: Record<DomainErrorKind, ProblemTypeName> = {
+  not_found: 'notFound',
+  conflict: 'conflict',
+  validation_failed: 'validationFailed',
+  unauthenticated: 'unauthorized',
+  forbidden: 'forbidden',
+};
+
+// Codes that need a more specific problem than their kind
+const PROBLEM_BY_ERROR_CODE: Record<string, ProblemTypeName> = {
+  VERSION_CONFLICT: 'versionMismatch',
+};
+
+export function createProblem(
+  name: ProblemTypeName,
+  detail: string | undefined,
+  context: ProblemContext = {},
+  errors?: FieldProblem[]
+): ProblemDetails {
+  const { type, title, status } = describeProblemType(name);
+  return {
+    type,
+    title,
+    status,
+    ...(detail !== undefined && { detail }),
+    ...(context.instance !== undefined && { instance: context.instance }),
+    ...(context.correlationId !== undefined && { correlationId: context.correlationId }),
+    ...(errors && errors.length > 0 && { errors }),
+  };
+}
+
+export function problemFromDomainError(error: DomainError, context: ProblemContext = {}): ProblemDetails {
+  const name = PROBLEM_BY_ERROR_CODE[error.code] ?? PROBLEM_BY_ERROR_KIND[error.kind];
+  const errors = error instanceof ValidationFailedError ? error.errors : undefined;
+
+  return createProblem(name, error.message, context, errors);
+}
+
+// Unexpected failures: the cause stays in server logs, the client only gets the correlation id
+export function internalProblem(context: ProblemContext = {}): ProblemDetails {
+  return createProblem(
+    'internal',
+    'An unexpected error occurred. Quote the correlation id when reporting it.',
+    context
+  );
+}
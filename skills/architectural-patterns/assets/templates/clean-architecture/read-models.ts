@@ -0,0 +1,351 @@
+/**
+ * Clean Architecture: Read Models (Application Layer)
+ * The query side of CQRS - Projections of user events into ready-to-render views, no entities involved
+ */
+
+import { InProcessEventDispatcher, UserDomainEvent, UserProfileChanged } from './domain-events';
+import { AuditEntry, IAuditLog } from './audit-log';
+import { NotFoundError, Result, ValidationFailedError, err, ok } from './errors';
+import { Actor } from './authorization';
+import { Clock } from './clock';
+import { UseCase } from './use-cases';
+
+// One user as the query side sees it: plain JSON, dates as ISO-8601
+export interface UserView {
+  id: string;
+  tenantId: string;
+  name: string;
+  email: string;
+  // Lower-cased part after the @
+  domain: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+export interface DomainUserCount {
+  domain: string;
+  users: number;
+}
+
+export interface DailySignups {
+  // UTC calendar day, YYYY-MM-DD
+  day: string;
+  signups: number;
+}
+
+// Read Model Store Port: Dumb storage for the views; the projector decides what goes in.
+// Deleted users keep their view (restore brings them back) but drop out of every listing.
+// Reports cover one tenant; clear empties every tenant's views for a rebuild.
+export interface IUserReadModelStore {
+  findUser(id: string): Promise<UserView | null>;
+  saveUser(view: UserView): Promise<void>;
+  removeUser(id: string): Promise<void>;
+  // Registrations per day are history: later deletes and erasures leave them counted
+  addSignup(tenantId: string, day: string): Promise<void>;
+  // Active users per domain, largest first
+  usersByDomain(tenantId: string, limit: number): Promise<DomainUserCount[]>;
+  // Days with at least one signup in [fromDay, toDay], oldest first
+  signupsPerDay(tenantId: string, fromDay: string, toDay: string): Promise<DailySignups[]>;
+  // Active users, most recently updated first
+  recentlyUpdated(tenantId: string, limit: number): Promise<UserView[]>;
+  // Removes one tenant's views and signup counts
+  clear(tenantId: string): Promise<void>;
+}
+
+export function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+export function calendarDay(instant: Date): string {
+  return instant.toISOString().slice(0, 10);
+}
+
+function isCalendarDay(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const instant = new Date(`${value}T00:00:00.000Z`);
+  return !Number.isNaN(instant.getTime()) && calendarDay(instant) === value;
+}
+
+// Projector: Applies each user event to the views. Every handler is idempotent, so an event
+// delivered twice (or replayed during a rebuild) leaves the same views behind.
+export class UserProjector {
+  constructor(private store: IUserReadModelStore) {}
+
+  async project(event: UserDomainEvent): Promise<void> {
+    switch (event.type) {
+      case 'UserRegistered': {
+        if (await this.store.findUser(event.userId)) return;
+        const at = event.occurredAt.toISOString();
+        await this.store.saveUser({
+          id: event.userId,
+          tenantId: event.tenantId,
+          name: event.name,
+          email: event.email,
+          domain: emailDomain(event.email),
+          createdAt: at,
+          updatedAt: at,
+          deletedAt: null,
+        });
+        await this.store.addSignup(event.tenantId, calendarDay(event.occurredAt));
+        return;
+      }
+      case 'UserProfileChanged':
+        return this.update(event.userId, (view) => {
+          const email = event.changes.email?.to ?? view.email;
+          return {
+            ...view,
+            name: event.changes.name?.to ?? view.name,
+            email,
+            domain: emailDomain(email),
+            updatedAt: event.occurredAt.toISOString(),
+          };
+        });
+      case 'UserDeleted':
+        return this.update(event.userId, (view) => ({
+          ...view,
+          deletedAt: event.occurredAt.toISOString(),
+          updatedAt: event.occurredAt.toISOString(),
+        }));
+      case 'UserRestored':
+        return this.update(event.userId, (view) => ({
+          ...view,
+          deletedAt: null,
+          updatedAt: event.occurredAt.toISOString(),
+        }));
+      case 'UserErased':
+        // Views hold personal data and an erased user can never come back: drop the view
+        return this.store.removeUser(event.userId);
+    }
+  }
+
+  // Keeps the views in step with every committed change in this process
+  subscribeTo(dispatcher: InProcessEventDispatcher): () => void {
+    const project = (event: UserDomainEvent) => this.project(event);
+    const unsubscribes = [
+      dispatcher.subscribe('UserRegistered', project),
+      dispatcher.subscribe('UserProfileChanged', project),
+      dispatcher.subscribe('UserDeleted', project),
+      dispatcher.subscribe('UserRestored', project),
+      dispatcher.subscribe('UserErased', project),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }
+
+  private async update(userId: string, change: (view: UserView) => UserView): Promise<void> {
+    const view = await this.store.findUser(userId);
+    if (view) await this.store.saveUser(change(view));
+  }
+}
+
+// The audit trail records every committed change, so it doubles as the event history to replay
+export function eventFromAuditEntry(entry: AuditEntry): UserDomainEvent | null {
+  const { userId, tenantId, occurredAt, before, after } = entry;
+
+  switch (entry.action) {
+    case 'user.created':
+      return (
+        after && {
+          type: 'UserRegistered',
+          userId,
+          tenantId,
+          name: after.name,
+          email: after.email,
+          occurredAt,
+        }
+      );
+    case 'user.updated': {
+      if (!before || !after) return null;
+      const changes: UserProfileChanged['changes'] = {};
+      if (before.name !== after.name) changes.name = { from: before.name, to: after.name };
+      if (before.email !== after.email) changes.email = { from: before.email, to: after.email };
+      // Saves that changed nothing raised no event when they happened either
+      return changes.name || changes.email
+        ? { type: 'UserProfileChanged', userId, tenantId, changes, occurredAt }
+        : null;
+    }
+    case 'user.deleted':
+      return { type: 'UserDeleted', userId, tenantId, occurredAt };
+    case 'user.restored':
+      return { type: 'UserRestored', userId, tenantId, occurredAt };
+    case 'user.erased':
+      return { type: 'UserErased', userId, tenantId, occurredAt };
+  }
+}
+
+// Command: Rebuild Read Models from scratch (after a schema change, a bug fix or lost events).
+// Only the tenant's own views are rebuilt, from its own audit history; other tenants are untouched.
+// Changes committed while it runs are also projected live; both paths converge on the same views.
+// The views are cleared first and refilled as the replay goes: until it finishes, GetUserView
+// answers 404 and the reports undercount for users not replayed yet.
+export interface RebuildReadModelsRequest {
+  tenantId: string;
+  actor?: Actor;
+}
+
+export interface RebuildReadModelsResponse {
+  // Audit entries read, and how many of them became events
+  entriesRead: number;
+  eventsProjected: number;
+}
+
+const REBUILD_PAGE_SIZE = 200;
+
+export class RebuildReadModelsUseCase
+  implements UseCase<RebuildReadModelsRequest, RebuildReadModelsResponse, never>
+{
+  private projector: UserProjector;
+
+  constructor(
+    private auditLog: IAuditLog,
+    private store: IUserReadModelStore
+  ) {
+    this.projector = new UserProjector(store);
+  }
+
+  async execute(
+    request: RebuildReadModelsRequest
+  ): Promise<Result<RebuildReadModelsResponse, never>> {
+    const { tenantId } = request;
+    await this.store.clear(tenantId);
+
+    const response: RebuildReadModelsResponse = { entriesRead: 0, eventsProjected: 0 };
+    let after: string | undefined;
+    for (;;) {
+      const page = await this.auditLog.query({ limit: REBUILD_PAGE_SIZE, tenantId, after });
+      for (const entry of page.entries) {
+        response.entriesRead++;
+        const event = eventFromAuditEntry(entry);
+        if (!event) continue;
+        await this.projector.project(event);
+        response.eventsProjected++;
+      }
+      if (!page.hasMore) return ok(response);
+      after = page.entries[page.entries.length - 1].id;
+    }
+  }
+}
+
+// Query: Get User View (a single user without loading the entity)
+export interface GetUserViewRequest {
+  userId: string;
+  tenantId: string;
+  actor?: Actor;
+}
+
+export class GetUserViewUseCase implements UseCase<GetUserViewRequest, UserView, NotFoundError> {
+  constructor(private store: IUserReadModelStore) {}
+
+  async execute({ userId, tenantId }: GetUserViewRequest): Promise<Result<UserView, NotFoundError>> {
+    const view = await this.store.findUser(userId);
+    return view && view.tenantId === tenantId && !view.deletedAt
+      ? ok(view)
+      : err(new NotFoundError('User', userId));
+  }
+}
+
+const DEFAULT_REPORT_SIZE = 20;
+const MAX_REPORT_SIZE = 100;
+
+function checkReportLimit(limit: number): ValidationFailedError | null {
+  return Number.isInteger(limit) && limit >= 1 && limit <= MAX_REPORT_SIZE
+    ? null
+    : new ValidationFailedError(`Limit must be between 1 and ${MAX_REPORT_SIZE}`, 'limit');
+}
+
+// Query: Users by Domain
+export interface UsersByDomainRequest {
+  tenantId: string;
+  limit?: number;
+  actor?: Actor;
+}
+
+export class UsersByDomainUseCase
+  implements UseCase<UsersByDomainRequest, DomainUserCount[], ValidationFailedError>
+{
+  constructor(private store: IUserReadModelStore) {}
+
+  async execute(
+    request: UsersByDomainRequest
+  ): Promise<Result<DomainUserCount[], ValidationFailedError>> {
+    const limit = request.limit ?? DEFAULT_REPORT_SIZE;
+    const invalid = checkReportLimit(limit);
+    return invalid ? err(invalid) : ok(await this.store.usersByDomain(request.tenantId, limit));
+  }
+}
+
+// Query: Recently Updated Users
+export interface RecentlyUpdatedUsersRequest {
+  tenantId: string;
+  limit?: number;
+  actor?: Actor;
+}
+
+export class RecentlyUpdatedUsersUseCase
+  implements UseCase<RecentlyUpdatedUsersRequest, UserView[], ValidationFailedError>
+{
+  constructor(private store: IUserReadModelStore) {}
+
+  async execute(
+    request: RecentlyUpdatedUsersRequest
+  ): Promise<Result<UserView[], ValidationFailedError>> {
+    const limit = request.limit ?? DEFAULT_REPORT_SIZE;
+    const invalid = checkReportLimit(limit);
+    return invalid ? err(invalid) : ok(await this.store.recentlyUpdated(request.tenantId, limit));
+  }
+}
+
+// Query: Signups per Day, one entry per day in the range (zero on quiet days) for charting
+export interface SignupsPerDayRequest {
+  tenantId: string;
+  // Inclusive UTC days, YYYY-MM-DD; default to the 30 days ending today
+  from?: string;
+  to?: string;
+  actor?: Actor;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SIGNUP_DAYS = 30;
+const MAX_SIGNUP_DAYS = 366;
+
+export class SignupsPerDayUseCase
+  implements UseCase<SignupsPerDayRequest, DailySignups[], ValidationFailedError>
+{
+  constructor(
+    private store: IUserReadModelStore,
+    private clock: Clock
+  ) {}
+
+  async execute(
+    request: SignupsPerDayRequest
+  ): Promise<Result<DailySignups[], ValidationFailedError>> {
+    for (const field of ['from', 'to'] as const) {
+      const value = request[field];
+      if (value !== undefined && !isCalendarDay(value)) {
+        return err(new ValidationFailedError(`${field} must be a date (YYYY-MM-DD)`, field));
+      }
+    }
+
+    const to = request.to ?? calendarDay(this.clock.now());
+    const toTime = Date.parse(to);
+    const from = request.from ?? calendarDay(new Date(toTime - (DEFAULT_SIGNUP_DAYS - 1) * DAY_MS));
+    const days = (toTime - Date.parse(from)) / DAY_MS + 1;
+
+    if (days < 1) {
+      return err(new ValidationFailedError('from must not be later than to', 'from'));
+    }
+    if (days > MAX_SIGNUP_DAYS) {
+      return err(new ValidationFailedError(`A range covers at most ${MAX_SIGNUP_DAYS} days`, 'from'));
+    }
+
+    const counted = new Map(
+      (await this.store.signupsPerDay(request.tenantId, from, to)).map((entry) => [entry.day, entry.signups])
+    );
+    return ok(
+      Array.from({ length: days }, (_, index) => {
+        const day = calendarDay(new Date(Date.parse(from) + index * DAY_MS));
+        return { day, signups: counted.get(day) ?? 0 };
+      })
+    );
+  }
+}
@@ -4,144 +4,1235 @@
  */
 
 import { User, UserId } from './entities';
-import { IUserRepository } from './use-cases';
+import { FindUserOptions, IUserRepository } from './use-cases';
+import { VersionConflictError } from './errors';
+import { UserListPage, UserListQuery, listUsersInMemory } from './user-queries';
+import { CachingUserRepository, UserCacheOptions } from './caching-repository';
+import {
+  AuditAction,
+  AuditEntry,
+  AuditLogPage,
+  AuditLogQuery,
+  IAuditLog,
+  NewAuditEntry,
+  RedactedIdentity,
+  matchesAuditQuery,
+  UserSnapshot,
+  redactSnapshot,
+} from './audit-log';
+import { IdGenerator, UuidV7Generator } from './id-generator';
+import { UserDomainEvent } from './domain-events';
+import { IOutboxStore, OutboxFailure, OutboxMessage, OutboxStatus, dueMessages, redactEvent } from './outbox';
+import { DailySignups, DomainUserCount, IUserReadModelStore, UserView } from './read-models';
+import { ICredentialStore, ISessionStore, LockoutPolicy, Session, UserCredential } from './credentials';
+import { Role } from './authorization';
+import { Mutex } from './mutex';
+import {
+  EventSourcedRepositoryOptions,
+  EventSourcedUserRepository,
+  IUserEventStore,
+  UserStreamChange,
+  UserStreamEvent,
+  UserStreamSnapshot,
+  UserStreamState,
+  redactStreamChange,
+} from './event-sourced-repository';
 
 // In-Memory Database (Example implementation)
 interface UserRecord {
   id: string;
+  tenantId: string;
   name: string;
   email: string;
   createdAt: string;
   updatedAt: string;
+  version: number;
+  deletedAt: string | null;
+  erasedAt: string | null;
 }
 
 export class InMemoryUserRepository implements IUserRepository {
   private users: Map<string, UserRecord> = new Map();
 
-  async findById(id: UserId): Promise<User | null> {
+  async findById(tenantId: string, id: UserId, options: FindUserOptions = {}): Promise<User | null> {
     const record = this.users.get(id.value);
-    if (!record) return null;
+    if (!record || record.tenantId !== tenantId) return null;
+    if (record.deletedAt && !options.includeDeleted) return null;
 
-    return new User(
-      { value: record.id },
-      record.name,
-      record.email,
-      new Date(record.createdAt),
-      new Date(record.updatedAt)
-    );
+    return this.toUser(record);
   }
 
-  async findByEmail(email: string): Promise<User | null> {
+  async findByEmail(tenantId: string, email: string): Promise<User | null> {
+    // Earliest-created match wins, same as the SQL adapter's ORDER BY
+    let match: UserRecord | null = null;
     for (const record of this.users.values()) {
-      if (record.email === email) {
-        return new User(
-          { value: record.id },
-          record.name,
-          record.email,
-          new Date(record.createdAt),
-          new Date(record.updatedAt)
-        );
+      if (record.tenantId !== tenantId || record.email !== email || record.deletedAt) continue;
+      if (
+        !match ||
+        record.createdAt < match.createdAt ||
+        (record.createdAt === match.createdAt && record.id < match.id)
+      ) {
+        match = record;
       }
     }
-    return null;
+    if (!match) return null;
+
+    return this.toUser(match);
   }
 
+  // Optimistic concurrency: the entity must carry the currently stored version
   async save(user: User): Promise<void> {
+    const stored = this.users.get(user.id.value);
+    // An id held by another tenant is as taken as one held by a concurrent writer
+    if (user.version !== (stored?.version ?? 0) || (stored && stored.tenantId !== user.tenantId)) {
+      throw new VersionConflictError('User', user.id.value, user.version);
+    }
+
     const record: UserRecord = {
       id: user.id.value,
+      tenantId: user.tenantId,
       name: user.name,
       email: user.email,
       createdAt: user.createdAt.toISOString(),
       updatedAt: user.updatedAt.toISOString(),
+      version: user.version + 1,
+      deletedAt: user.deletedAt?.toISOString() ?? null,
+      erasedAt: user.erasedAt?.toISOString() ?? null,
     };
 
     this.users.set(user.id.value, record);
+    user.version = record.version;
   }
 
-  async delete(id: UserId): Promise<void> {
-    this.users.delete(id.value);
+  async delete(tenantId: string, id: UserId): Promise<void> {
+    if (this.users.get(id.value)?.tenantId === tenantId) this.users.delete(id.value);
+  }
+
+  async list(tenantId: string, query: UserListQuery): Promise<UserListPage> {
+    const active = [...this.users.values()].filter(
+      (record) => record.tenantId === tenantId && !record.deletedAt
+    );
+    return listUsersInMemory(active.map((record) => this.toUser(record)), query);
+  }
+
+  private toUser(record: UserRecord): User {
+    return new User(
+      { value: record.id },
+      record.tenantId,
+      record.name,
+      record.email,
+      new Date(record.createdAt),
+      new Date(record.updatedAt),
+      record.version,
+      record.deletedAt ? new Date(record.deletedAt) : null,
+      record.erasedAt ? new Date(record.erasedAt) : null
+    );
   }
 }
 
+// One result row by column name. Drivers differ in what they hand back (text or Date, number or
+// bigint), so mappers read every column through the parsers below.
+export type SqlRow = Record<string, unknown>;
+
 // Database Interface (for real database)
-export interface IDatabaseConnection {
-  query(sql: string, params: any[]): Promise<any[]>;
-  execute(sql: string, params: any[]): Promise<void>;
+export interface ISqlExecutor {
+  query(sql: string, params: unknown[]): Promise<SqlRow[]>;
+  execute(sql: string, params: unknown[]): Promise<void>;
+}
+
+export interface IDatabaseConnection extends ISqlExecutor {
+  // Statements on the returned transaction run in isolation until commit/rollback
+  begin(): Promise<IDatabaseTransaction>;
   close(): Promise<void>;
 }
 
-// PostgreSQL Repository (Example - not implemented)
-export class PostgresUserRepository implements IUserRepository {
-  constructor(private db: IDatabaseConnection) {}
+export interface IDatabaseTransaction extends ISqlExecutor {
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+}
+
+// Column parsers: a value the schema does not allow is a storage bug, so they throw
+function columnError(column: string, expected: string): Error {
+  return new Error(`Column ${column} does not hold ${expected}`);
+}
+
+export function textColumn(row: SqlRow, column: string): string {
+  const value = row[column];
+  if (typeof value !== 'string') throw columnError(column, 'text');
+  return value;
+}
+
+function nullableTextColumn(row: SqlRow, column: string): string | null {
+  return (row[column] ?? null) === null ? null : textColumn(row, column);
+}
+
+export function integerColumn(row: SqlRow, column: string): number {
+  const value = row[column];
+  const number =
+    typeof value === 'number' || typeof value === 'bigint' || typeof value === 'string' ? Number(value) : NaN;
+  if (!Number.isInteger(number)) throw columnError(column, 'an integer');
+  return number;
+}
 
-  async findById(id: UserId): Promise<User | null> {
+// ISO text in SQLite, a Date from drivers with a timestamp type
+function dateColumn(row: SqlRow, column: string): Date {
+  const value = row[column];
+  const date = value instanceof Date ? value : new Date(typeof value === 'string' ? value : NaN);
+  if (Number.isNaN(date.getTime())) throw columnError(column, 'a timestamp');
+  return date;
+}
+
+function nullableDateColumn(row: SqlRow, column: string): Date | null {
+  return (row[column] ?? null) === null ? null : dateColumn(row, column);
+}
+
+// JSON text; the caller names the type the column was written from
+function jsonColumn<T>(row: SqlRow, column: string): T {
+  return JSON.parse(textColumn(row, column)) as T;
+}
+
+// SQL Repository: Portable SQL with "$1" placeholders - runs on PostgreSQL and SQLite
+// Works on a plain connection or inside a transaction
+export class SqlUserRepository implements IUserRepository {
+  constructor(private db: ISqlExecutor) {}
+
+  async findById(tenantId: string, id: UserId, options: FindUserOptions = {}): Promise<User | null> {
     const results = await this.db.query(
-      'SELECT * FROM users WHERE id = $1',
-      [id.value]
+      options.includeDeleted
+        ? 'SELECT * FROM users WHERE id = $1 AND tenant_id = $2'
+        : 'SELECT * FROM users WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL',
+      [id.value, tenantId]
     );
 
     if (results.length === 0) return null;
 
-    const row = results[0];
-    return new User(
-      { value: row.id },
-      row.name,
-      row.email,
-      new Date(row.created_at),
-      new Date(row.updated_at)
-    );
+    return this.toUser(results[0]);
   }
 
-  async findByEmail(email: string): Promise<User | null> {
+  async findByEmail(tenantId: string, email: string): Promise<User | null> {
     const results = await this.db.query(
-      'SELECT * FROM users WHERE email = $1',
-      [email]
+      `SELECT * FROM users WHERE tenant_id = $1 AND email = $2 AND deleted_at IS NULL
+       ORDER BY created_at, id LIMIT 1`,
+      [tenantId, email]
     );
 
     if (results.length === 0) return null;
 
-    const row = results[0];
+    return this.toUser(results[0]);
+  }
+
+  // Optimistic concurrency: version 0 inserts, otherwise the stored version (and tenant) must match
+  async save(user: User): Promise<void> {
+    const rows =
+      user.version === 0
+        ? await this.db.query(
+            `INSERT INTO users
+               (id, tenant_id, name, email, created_at, updated_at, deleted_at, erased_at, version)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 1)
+             ON CONFLICT (id) DO NOTHING
+             RETURNING version`,
+            [
+              user.id.value,
+              user.tenantId,
+              user.name,
+              user.email,
+              user.createdAt.toISOString(),
+              user.updatedAt.toISOString(),
+              user.deletedAt?.toISOString() ?? null,
+              user.erasedAt?.toISOString() ?? null,
+            ]
+          )
+        : await this.db.query(
+            `UPDATE users
+             SET name = $2, email = $3, updated_at = $4, deleted_at = $5, erased_at = $6, version = version + 1
+             WHERE id = $1 AND version = $7 AND tenant_id = $8
+             RETURNING version`,
+            [
+              user.id.value,
+              user.name,
+              user.email,
+              user.updatedAt.toISOString(),
+              user.deletedAt?.toISOString() ?? null,
+              user.erasedAt?.toISOString() ?? null,
+              user.version,
+              user.tenantId,
+            ]
+          );
+
+    if (rows.length === 0) {
+      throw new VersionConflictError('User', user.id.value, user.version);
+    }
+    user.version = integerColumn(rows[0], 'version');
+  }
+
+  async delete(tenantId: string, id: UserId): Promise<void> {
+    await this.db.execute('DELETE FROM users WHERE id = $1 AND tenant_id = $2', [id.value, tenantId]);
+  }
+
+  // Keyset pagination: row-value comparison on (sort column, id), one extra row to detect more
+  async list(tenantId: string, query: UserListQuery): Promise<UserListPage> {
+    const column = query.sortBy === 'name' ? 'name' : 'created_at';
+    const direction = query.sortOrder === 'asc' ? 'ASC' : 'DESC';
+    const params: unknown[] = [];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    const conditions: string[] = [`tenant_id = ${param(tenantId)}`, 'deleted_at IS NULL'];
+
+    if (query.emailDomain) {
+      const pattern = `%@${escapeLike(query.emailDomain.toLowerCase())}`;
+      conditions.push(`LOWER(email) LIKE ${param(pattern)} ESCAPE '\\'`);
+    }
+    if (query.nameContains) {
+      const pattern = `%${escapeLike(query.nameContains.toLowerCase())}%`;
+      conditions.push(`LOWER(name) LIKE ${param(pattern)} ESCAPE '\\'`);
+    }
+    if (query.after) {
+      const comparator = query.sortOrder === 'asc' ? '>' : '<';
+      conditions.push(`(${column}, id) ${comparator} (${param(query.after.key)}, ${param(query.after.id)})`);
+    }
+
+    const rows = await this.db.query(
+      `SELECT * FROM users WHERE ${conditions.join(' AND ')}
+       ORDER BY ${column} ${direction}, id ${direction}
+       LIMIT ${param(query.limit + 1)}`,
+      params
+    );
+
+    return {
+      users: rows.slice(0, query.limit).map((row) => this.toUser(row)),
+      hasMore: rows.length > query.limit,
+    };
+  }
+
+  private toUser(row: SqlRow): User {
     return new User(
-      { value: row.id },
-      row.name,
-      row.email,
-      new Date(row.created_at),
-      new Date(row.updated_at)
+      { value: textColumn(row, 'id') },
+      textColumn(row, 'tenant_id'),
+      textColumn(row, 'name'),
+      textColumn(row, 'email'),
+      dateColumn(row, 'created_at'),
+      dateColumn(row, 'updated_at'),
+      integerColumn(row, 'version'),
+      nullableDateColumn(row, 'deleted_at'),
+      nullableDateColumn(row, 'erased_at')
     );
   }
+}
 
-  async save(user: User): Promise<void> {
-    const now = new Date();
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// In-Memory Audit Log: Entries are copied in and out, so callers cannot rewrite history
+export class InMemoryAuditLog implements IAuditLog {
+  private entries: AuditEntry[] = [];
+
+  constructor(private ids: IdGenerator = new UuidV7Generator()) {}
+
+  async append(entry: NewAuditEntry): Promise<void> {
+    this.entries.push(structuredClone({ ...entry, id: this.ids.next() }));
+  }
+
+  async query(query: AuditLogQuery): Promise<AuditLogPage> {
+    const matching = this.entries.filter((entry) => matchesAuditQuery(entry, query));
+    return {
+      entries: matching.slice(0, query.limit).map((entry) => structuredClone(entry)),
+      hasMore: matching.length > query.limit,
+    };
+  }
+
+  async redactUser(userId: string, identity: RedactedIdentity): Promise<void> {
+    for (const entry of this.entries) {
+      if (entry.userId !== userId) continue;
+      entry.before = entry.before && redactSnapshot(entry.before, identity);
+      entry.after = entry.after && redactSnapshot(entry.after, identity);
+    }
+  }
+}
+
+// SQL Audit Log: INSERT and SELECT, plus the UPDATE that erasure needs; before/after are JSON text
+export class SqlAuditLog implements IAuditLog {
+  constructor(
+    private db: ISqlExecutor,
+    private ids: IdGenerator = new UuidV7Generator()
+  ) {}
 
+  async append(entry: NewAuditEntry): Promise<void> {
     await this.db.execute(
-      `INSERT INTO users (id, name, email, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5)
+      `INSERT INTO user_audit_log (id, user_id, tenant_id, actor_id, action, before, after, occurred_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        this.ids.next(),
+        entry.userId,
+        entry.tenantId,
+        entry.actorId,
+        entry.action,
+        entry.before && JSON.stringify(entry.before),
+        entry.after && JSON.stringify(entry.after),
+        entry.occurredAt.toISOString(),
+      ]
+    );
+  }
+
+  async query(query: AuditLogQuery): Promise<AuditLogPage> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (query.tenantId !== undefined) conditions.push(`tenant_id = ${param(query.tenantId)}`);
+    if (query.userId !== undefined) conditions.push(`user_id = ${param(query.userId)}`);
+    if (query.actorId !== undefined) conditions.push(`actor_id = ${param(query.actorId)}`);
+    if (query.action !== undefined) conditions.push(`action = ${param(query.action)}`);
+    if (query.from) conditions.push(`occurred_at >= ${param(query.from.toISOString())}`);
+    if (query.to) conditions.push(`occurred_at < ${param(query.to.toISOString())}`);
+    if (query.after !== undefined) conditions.push(`id > ${param(query.after)}`);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await this.db.query(
+      `SELECT * FROM user_audit_log ${where} ORDER BY id LIMIT ${param(query.limit + 1)}`,
+      params
+    );
+
+    return {
+      entries: rows.slice(0, query.limit).map((row) => ({
+        id: textColumn(row, 'id'),
+        userId: textColumn(row, 'user_id'),
+        tenantId: textColumn(row, 'tenant_id'),
+        actorId: nullableTextColumn(row, 'actor_id'),
+        action: textColumn(row, 'action') as AuditAction,
+        before: row.before ? jsonColumn<UserSnapshot>(row, 'before') : null,
+        after: row.after ? jsonColumn<UserSnapshot>(row, 'after') : null,
+        occurredAt: dateColumn(row, 'occurred_at'),
+      })),
+      hasMore: rows.length > query.limit,
+    };
+  }
+
+  async redactUser(userId: string, identity: RedactedIdentity): Promise<void> {
+    const rows = await this.db.query(
+      'SELECT id, before, after FROM user_audit_log WHERE user_id = $1',
+      [userId]
+    );
+    for (const row of rows) {
+      const redact = (json: string | null) =>
+        json && JSON.stringify(redactSnapshot(JSON.parse(json), identity));
+      await this.db.execute(
+        'UPDATE user_audit_log SET before = $2, after = $3 WHERE id = $1',
+        [row.id, redact(nullableTextColumn(row, 'before')), redact(nullableTextColumn(row, 'after'))]
+      );
+    }
+  }
+}
+
+// In-Memory Outbox: Messages are copied in and out, like the audit log's entries
+export class InMemoryOutbox implements IOutboxStore {
+  private messages: OutboxMessage[] = [];
+
+  constructor(private ids: IdGenerator = new UuidV7Generator()) {}
+
+  async enqueue(events: readonly UserDomainEvent[]): Promise<void> {
+    for (const event of events) {
+      this.messages.push(
+        structuredClone({
+          id: this.ids.next(),
+          event,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: event.occurredAt,
+          lastError: null,
+          deliveredAt: null,
+          deadLetteredAt: null,
+        })
+      );
+    }
+  }
+
+  async due(now: Date, limit: number): Promise<OutboxMessage[]> {
+    return dueMessages(this.messages, now, limit).map((message) => structuredClone(message));
+  }
+
+  async markDelivered(id: string, at: Date): Promise<void> {
+    const message = this.pending(id);
+    if (!message) return;
+    message.status = 'delivered';
+    message.deliveredAt = new Date(at);
+  }
+
+  async markFailed(id: string, failure: OutboxFailure): Promise<void> {
+    const message = this.pending(id);
+    if (!message) return;
+    message.attempts++;
+    message.lastError = failure.error;
+    if (failure.retryAt) {
+      message.nextAttemptAt = new Date(failure.retryAt);
+    } else {
+      message.status = 'dead';
+      message.deadLetteredAt = new Date(failure.at);
+    }
+  }
+
+  async deadLetters(limit: number): Promise<OutboxMessage[]> {
+    return this.messages
+      .filter((message) => message.status === 'dead')
+      .slice(0, limit)
+      .map((message) => structuredClone(message));
+  }
+
+  async redactUser(userId: string, identity: RedactedIdentity): Promise<void> {
+    for (const message of this.messages) {
+      if (message.event.userId === userId) message.event = redactEvent(message.event, identity);
+    }
+  }
+
+  private pending(id: string): OutboxMessage | undefined {
+    return this.messages.find((message) => message.id === id && message.status === 'pending');
+  }
+}
+
+// SQL Outbox: Rows are written by the unit of work's transaction and updated by the relay;
+// the event is JSON text, with user_id alongside it for ordering and erasure
+export class SqlOutbox implements IOutboxStore {
+  constructor(
+    private db: ISqlExecutor,
+    private ids: IdGenerator = new UuidV7Generator()
+  ) {}
+
+  async enqueue(events: readonly UserDomainEvent[]): Promise<void> {
+    for (const event of events) {
+      await this.db.execute(
+        `INSERT INTO user_outbox (id, user_id, type, payload, status, attempts, next_attempt_at)
+         VALUES ($1, $2, $3, $4, 'pending', 0, $5)`,
+        [this.ids.next(), event.userId, event.type, JSON.stringify(event), event.occurredAt.toISOString()]
+      );
+    }
+  }
+
+  async due(now: Date, limit: number): Promise<OutboxMessage[]> {
+    const rows = await this.db.query(
+      `SELECT * FROM user_outbox message
+       WHERE message.status = 'pending' AND message.next_attempt_at <= $1
+         AND NOT EXISTS (
+           SELECT 1 FROM user_outbox earlier
+           WHERE earlier.user_id = message.user_id AND earlier.status = 'pending'
+             AND earlier.id < message.id AND earlier.next_attempt_at > $1
+         )
+       ORDER BY message.id LIMIT $2`,
+      [now.toISOString(), limit]
+    );
+    return rows.map((row) => this.toMessage(row));
+  }
+
+  async markDelivered(id: string, at: Date): Promise<void> {
+    await this.db.execute(
+      `UPDATE user_outbox SET status = 'delivered', delivered_at = $2 WHERE id = $1 AND status = 'pending'`,
+      [id, at.toISOString()]
+    );
+  }
+
+  async markFailed(id: string, failure: OutboxFailure): Promise<void> {
+    if (failure.retryAt) {
+      await this.db.execute(
+        `UPDATE user_outbox SET attempts = attempts + 1, last_error = $2, next_attempt_at = $3
+         WHERE id = $1 AND status = 'pending'`,
+        [id, failure.error, failure.retryAt.toISOString()]
+      );
+    } else {
+      await this.db.execute(
+        `UPDATE user_outbox
+         SET attempts = attempts + 1, last_error = $2, status = 'dead', dead_lettered_at = $3
+         WHERE id = $1 AND status = 'pending'`,
+        [id, failure.error, failure.at.toISOString()]
+      );
+    }
+  }
+
+  async deadLetters(limit: number): Promise<OutboxMessage[]> {
+    const rows = await this.db.query(
+      `SELECT * FROM user_outbox WHERE status = 'dead' ORDER BY id LIMIT $1`,
+      [limit]
+    );
+    return rows.map((row) => this.toMessage(row));
+  }
+
+  async redactUser(userId: string, identity: RedactedIdentity): Promise<void> {
+    const rows = await this.db.query('SELECT id, payload FROM user_outbox WHERE user_id = $1', [userId]);
+    for (const row of rows) {
+      await this.db.execute('UPDATE user_outbox SET payload = $2 WHERE id = $1', [
+        row.id,
+        JSON.stringify(redactEvent(parseEvent(textColumn(row, 'payload')), identity)),
+      ]);
+    }
+  }
+
+  private toMessage(row: SqlRow): OutboxMessage {
+    return {
+      id: textColumn(row, 'id'),
+      event: parseEvent(textColumn(row, 'payload')),
+      status: textColumn(row, 'status') as OutboxStatus,
+      attempts: integerColumn(row, 'attempts'),
+      nextAttemptAt: dateColumn(row, 'next_attempt_at'),
+      lastError: nullableTextColumn(row, 'last_error'),
+      deliveredAt: nullableDateColumn(row, 'delivered_at'),
+      deadLetteredAt: nullableDateColumn(row, 'dead_lettered_at'),
+    };
+  }
+}
+
+// Events are stored as JSON; occurredAt is the one date every event carries
+function parseEvent(payload: string): UserDomainEvent {
+  const event = JSON.parse(payload);
+  return { ...event, occurredAt: new Date(event.occurredAt) };
+}
+
+// In-Memory Read Models: Views keyed by user id, signups keyed by tenant, then day
+export class InMemoryUserReadModelStore implements IUserReadModelStore {
+  private views = new Map<string, UserView>();
+  private signups = new Map<string, Map<string, number>>();
+
+  async findUser(id: string): Promise<UserView | null> {
+    const view = this.views.get(id);
+    return view ? { ...view } : null;
+  }
+
+  async saveUser(view: UserView): Promise<void> {
+    this.views.set(view.id, { ...view });
+  }
+
+  async removeUser(id: string): Promise<void> {
+    this.views.delete(id);
+  }
+
+  async addSignup(tenantId: string, day: string): Promise<void> {
+    const days = this.signups.get(tenantId) ?? new Map<string, number>();
+    this.signups.set(tenantId, days.set(day, (days.get(day) ?? 0) + 1));
+  }
+
+  async usersByDomain(tenantId: string, limit: number): Promise<DomainUserCount[]> {
+    const counts = new Map<string, number>();
+    for (const view of this.active(tenantId)) {
+      counts.set(view.domain, (counts.get(view.domain) ?? 0) + 1);
+    }
+    return [...counts]
+      .map(([domain, users]) => ({ domain, users }))
+      .sort((a, b) => b.users - a.users || a.domain.localeCompare(b.domain))
+      .slice(0, limit);
+  }
+
+  async signupsPerDay(tenantId: string, fromDay: string, toDay: string): Promise<DailySignups[]> {
+    return [...(this.signups.get(tenantId) ?? [])]
+      .filter(([day]) => day >= fromDay && day <= toDay)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, signups]) => ({ day, signups }));
+  }
+
+  async recentlyUpdated(tenantId: string, limit: number): Promise<UserView[]> {
+    return this.active(tenantId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt) || b.id.localeCompare(a.id))
+      .slice(0, limit)
+      .map((view) => ({ ...view }));
+  }
+
+  async clear(tenantId: string): Promise<void> {
+    for (const view of this.views.values()) {
+      if (view.tenantId === tenantId) this.views.delete(view.id);
+    }
+    this.signups.delete(tenantId);
+  }
+
+  private active(tenantId: string): UserView[] {
+    return [...this.views.values()].filter((view) => view.tenantId === tenantId && !view.deletedAt);
+  }
+}
+
+// SQL Read Models: Denormalised tables written with portable upserts (PostgreSQL, SQLite 3.24+)
+export class SqlUserReadModelStore implements IUserReadModelStore {
+  constructor(private db: ISqlExecutor) {}
+
+  async findUser(id: string): Promise<UserView | null> {
+    const rows = await this.db.query('SELECT * FROM user_views WHERE id = $1', [id]);
+    return rows.length > 0 ? this.toView(rows[0]) : null;
+  }
+
+  async saveUser(view: UserView): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO user_views (id, tenant_id, name, email, domain, created_at, updated_at, deleted_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
        ON CONFLICT (id) DO UPDATE SET
-       name = $2, email = $3, updated_at = $5`,
+         name = excluded.name, email = excluded.email, domain = excluded.domain,
+         updated_at = excluded.updated_at, deleted_at = excluded.deleted_at`,
+      [
+        view.id,
+        view.tenantId,
+        view.name,
+        view.email,
+        view.domain,
+        view.createdAt,
+        view.updatedAt,
+        view.deletedAt,
+      ]
+    );
+  }
+
+  async removeUser(id: string): Promise<void> {
+    await this.db.execute('DELETE FROM user_views WHERE id = $1', [id]);
+  }
+
+  async addSignup(tenantId: string, day: string): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO user_daily_signups (tenant_id, day, signups) VALUES ($1, $2, 1)
+       ON CONFLICT (tenant_id, day) DO UPDATE SET signups = user_daily_signups.signups + 1`,
+      [tenantId, day]
+    );
+  }
+
+  async usersByDomain(tenantId: string, limit: number): Promise<DomainUserCount[]> {
+    const rows = await this.db.query(
+      `SELECT domain, COUNT(*) AS users FROM user_views WHERE tenant_id = $1 AND deleted_at IS NULL
+       GROUP BY domain ORDER BY users DESC, domain LIMIT $2`,
+      [tenantId, limit]
+    );
+    return rows.map((row) => ({ domain: textColumn(row, 'domain'), users: integerColumn(row, 'users') }));
+  }
+
+  async signupsPerDay(tenantId: string, fromDay: string, toDay: string): Promise<DailySignups[]> {
+    const rows = await this.db.query(
+      `SELECT day, signups FROM user_daily_signups
+       WHERE tenant_id = $1 AND day >= $2 AND day <= $3 ORDER BY day`,
+      [tenantId, fromDay, toDay]
+    );
+    return rows.map((row) => ({ day: textColumn(row, 'day'), signups: integerColumn(row, 'signups') }));
+  }
+
+  async recentlyUpdated(tenantId: string, limit: number): Promise<UserView[]> {
+    const rows = await this.db.query(
+      `SELECT * FROM user_views WHERE tenant_id = $1 AND deleted_at IS NULL
+       ORDER BY updated_at DESC, id DESC LIMIT $2`,
+      [tenantId, limit]
+    );
+    return rows.map((row) => this.toView(row));
+  }
+
+  async clear(tenantId: string): Promise<void> {
+    await this.db.execute('DELETE FROM user_views WHERE tenant_id = $1', [tenantId]);
+    await this.db.execute('DELETE FROM user_daily_signups WHERE tenant_id = $1', [tenantId]);
+  }
+
+  private toView(row: SqlRow): UserView {
+    return {
+      id: textColumn(row, 'id'),
+      tenantId: textColumn(row, 'tenant_id'),
+      name: textColumn(row, 'name'),
+      email: textColumn(row, 'email'),
+      domain: textColumn(row, 'domain'),
+      createdAt: textColumn(row, 'created_at'),
+      updatedAt: textColumn(row, 'updated_at'),
+      deletedAt: nullableTextColumn(row, 'deleted_at'),
+    };
+  }
+}
+
+// In-Memory Event Store: Events and snapshots are copied in and out, so callers cannot rewrite history
+export class InMemoryUserEventStore implements IUserEventStore {
+  private streams = new Map<string, UserStreamEvent[]>();
+  private snapshots = new Map<string, UserStreamSnapshot>();
+  // Lookup projection both ways: tenant and email -> user ids, and each user's indexed key
+  private usersByEmail = new Map<string, Set<string>>();
+  private indexedEmails = new Map<string, string>();
+
+  async append(
+    userId: string,
+    expectedSequence: number,
+    events: readonly UserStreamEvent[]
+  ): Promise<boolean> {
+    const stream = this.streams.get(userId) ?? [];
+    if (stream.length !== expectedSequence) return false;
+    this.streams.set(userId, [...stream, ...structuredClone(events)]);
+    return true;
+  }
+
+  async load(userId: string, afterSequence: number): Promise<UserStreamEvent[]> {
+    const stream = this.streams.get(userId) ?? [];
+    return structuredClone(stream.filter((event) => event.sequence > afterSequence));
+  }
+
+  async latestSnapshot(userId: string): Promise<UserStreamSnapshot | null> {
+    const snapshot = this.snapshots.get(userId);
+    return snapshot ? structuredClone(snapshot) : null;
+  }
+
+  async saveSnapshot(snapshot: UserStreamSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.userId, structuredClone(snapshot));
+  }
+
+  async indexEmail(tenantId: string, userId: string, email: string | null): Promise<void> {
+    const previous = this.indexedEmails.get(userId);
+    const previousUsers = previous === undefined ? undefined : this.usersByEmail.get(previous);
+    previousUsers?.delete(userId);
+    // An empty entry would keep the old email around (and an erased user's with it)
+    if (previousUsers?.size === 0) this.usersByEmail.delete(previous!);
+    if (email === null) {
+      this.indexedEmails.delete(userId);
+      return;
+    }
+    const key = emailKey(tenantId, email);
+    this.indexedEmails.set(userId, key);
+    this.usersByEmail.set(key, (this.usersByEmail.get(key) ?? new Set()).add(userId));
+  }
+
+  async usersWithEmail(tenantId: string, email: string): Promise<string[]> {
+    return [...(this.usersByEmail.get(emailKey(tenantId, email)) ?? [])];
+  }
+
+  async userIds(tenantId: string): Promise<string[]> {
+    return [...this.streams]
+      .filter(([, stream]) => stream[0]?.tenantId === tenantId)
+      .map(([userId]) => userId);
+  }
+
+  async deleteStream(userId: string): Promise<void> {
+    const tenantId = this.streams.get(userId)?.[0]?.tenantId ?? '';
+    this.streams.delete(userId);
+    this.snapshots.delete(userId);
+    await this.indexEmail(tenantId, userId, null);
+  }
+
+  async redactStream(userId: string, identity: RedactedIdentity): Promise<void> {
+    const stream = this.streams.get(userId);
+    if (stream) {
+      this.streams.set(
+        userId,
+        stream.map((event) => ({ ...event, change: redactStreamChange(event.change, identity) }))
+      );
+    }
+    const snapshot = this.snapshots.get(userId);
+    if (snapshot) {
+      this.snapshots.set(userId, { ...snapshot, state: { ...snapshot.state, ...identity } });
+    }
+  }
+}
+
+// One lookup key per tenant and email: the same address may belong to users of different tenants
+function emailKey(tenantId: string, email: string): string {
+  return `${tenantId}\u0000${email}`;
+}
+
+// SQL Event Store: One row per event, the change as JSON text. Appends check the stream's
+// latest sequence like the in-memory store; the (user_id, sequence) primary key still turns two
+// concurrent appends that both passed that check into a conflict instead of an interleaving.
+export class SqlUserEventStore implements IUserEventStore {
+  constructor(private db: ISqlExecutor) {}
+
+  async append(
+    userId: string,
+    expectedSequence: number,
+    events: readonly UserStreamEvent[]
+  ): Promise<boolean> {
+    const [latest] = await this.db.query(
+      'SELECT COALESCE(MAX(sequence), 0) AS sequence FROM user_events WHERE user_id = $1',
+      [userId]
+    );
+    if (integerColumn(latest, 'sequence') !== expectedSequence) return false;
+
+    for (const event of events) {
+      const rows = await this.db.query(
+        `INSERT INTO user_events (user_id, sequence, tenant_id, version, type, payload, recorded_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (user_id, sequence) DO NOTHING
+         RETURNING sequence`,
+        [
+          userId,
+          event.sequence,
+          event.tenantId,
+          event.version,
+          event.change.type,
+          JSON.stringify(event.change),
+          event.recordedAt,
+        ]
+      );
+      // A concurrent append got in after the check: it collides on the first insert,
+      // before anything was written
+      if (rows.length === 0) return false;
+    }
+    return true;
+  }
+
+  async load(userId: string, afterSequence: number): Promise<UserStreamEvent[]> {
+    const rows = await this.db.query(
+      'SELECT * FROM user_events WHERE user_id = $1 AND sequence > $2 ORDER BY sequence',
+      [userId, afterSequence]
+    );
+    return rows.map((row) => ({
+      userId: textColumn(row, 'user_id'),
+      tenantId: textColumn(row, 'tenant_id'),
+      sequence: integerColumn(row, 'sequence'),
+      version: integerColumn(row, 'version'),
+      recordedAt: textColumn(row, 'recorded_at'),
+      change: jsonColumn<UserStreamChange>(row, 'payload'),
+    }));
+  }
+
+  async latestSnapshot(userId: string): Promise<UserStreamSnapshot | null> {
+    const rows = await this.db.query('SELECT * FROM user_snapshots WHERE user_id = $1', [userId]);
+    if (rows.length === 0) return null;
+    return {
+      userId,
+      sequence: integerColumn(rows[0], 'sequence'),
+      state: jsonColumn<UserStreamState>(rows[0], 'state'),
+    };
+  }
+
+  async saveSnapshot(snapshot: UserStreamSnapshot): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO user_snapshots (user_id, sequence, state) VALUES ($1, $2, $3)
+       ON CONFLICT (user_id) DO UPDATE SET sequence = excluded.sequence, state = excluded.state`,
+      [snapshot.userId, snapshot.sequence, JSON.stringify(snapshot.state)]
+    );
+  }
+
+  async indexEmail(tenantId: string, userId: string, email: string | null): Promise<void> {
+    if (email === null) {
+      await this.db.execute('DELETE FROM user_email_lookup WHERE user_id = $1', [userId]);
+      return;
+    }
+    await this.db.execute(
+      `INSERT INTO user_email_lookup (user_id, tenant_id, email) VALUES ($1, $2, $3)
+       ON CONFLICT (user_id) DO UPDATE SET tenant_id = excluded.tenant_id, email = excluded.email`,
+      [userId, tenantId, email]
+    );
+  }
+
+  async usersWithEmail(tenantId: string, email: string): Promise<string[]> {
+    const rows = await this.db.query(
+      'SELECT user_id FROM user_email_lookup WHERE tenant_id = $1 AND email = $2',
+      [tenantId, email]
+    );
+    return rows.map((row) => textColumn(row, 'user_id'));
+  }
+
+  async userIds(tenantId: string): Promise<string[]> {
+    const rows = await this.db.query(
+      'SELECT DISTINCT user_id FROM user_events WHERE tenant_id = $1 ORDER BY user_id',
+      [tenantId]
+    );
+    return rows.map((row) => textColumn(row, 'user_id'));
+  }
+
+  async deleteStream(userId: string): Promise<void> {
+    await this.db.execute('DELETE FROM user_events WHERE user_id = $1', [userId]);
+    await this.db.execute('DELETE FROM user_snapshots WHERE user_id = $1', [userId]);
+    await this.db.execute('DELETE FROM user_email_lookup WHERE user_id = $1', [userId]);
+  }
+
+  async redactStream(userId: string, identity: RedactedIdentity): Promise<void> {
+    for (const event of await this.load(userId, 0)) {
+      const change = redactStreamChange(event.change, identity);
+      if (change === event.change) continue;
+      await this.db.execute(
+        'UPDATE user_events SET payload = $3 WHERE user_id = $1 AND sequence = $2',
+        [userId, event.sequence, JSON.stringify(change)]
+      );
+    }
+
+    const snapshot = await this.latestSnapshot(userId);
+    if (snapshot) {
+      await this.saveSnapshot({ ...snapshot, state: { ...snapshot.state, ...identity } });
+    }
+  }
+}
+
+// In-Memory Credentials: Copied in and out, so a caller holding one cannot change the stored hash
+export class InMemoryCredentialStore implements ICredentialStore {
+  private credentials = new Map<string, UserCredential>();
+  // Read-modify-write steps run one at a time, as the SQL store's single statements do
+  private mutex = new Mutex();
+
+  async find(tenantId: string, userId: string): Promise<UserCredential | null> {
+    const credential = this.credentials.get(userId);
+    if (!credential || credential.tenantId !== tenantId) return null;
+    return { ...credential, roles: [...credential.roles] };
+  }
+
+  async add(credential: UserCredential): Promise<boolean> {
+    const release = await this.mutex.acquire();
+    try {
+      if (this.credentials.has(credential.userId)) return false;
+      await this.save(credential);
+      return true;
+    } finally {
+      release();
+    }
+  }
+
+  async save(credential: UserCredential): Promise<void> {
+    this.credentials.set(credential.userId, { ...credential, roles: [...credential.roles] });
+  }
+
+  async recordFailure(userId: string, now: Date, policy: LockoutPolicy): Promise<void> {
+    await this.update(userId, (credential) => {
+      const failedAttempts = credential.failedAttempts + 1;
+      const locked = failedAttempts >= policy.maxFailures;
+      return {
+        ...credential,
+        failedAttempts: locked ? 0 : failedAttempts,
+        lockedUntil: locked ? new Date(now.getTime() + policy.lockoutMs) : credential.lockedUntil,
+        updatedAt: now,
+      };
+    });
+  }
+
+  async resetFailures(userId: string, now: Date): Promise<boolean> {
+    return this.update(userId, (credential) =>
+      credential.lockedUntil && credential.lockedUntil > now
+        ? null
+        : { ...credential, failedAttempts: 0, lockedUntil: null, updatedAt: now }
+    );
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.credentials.delete(userId);
+  }
+
+  // change returns null to leave the credential as it is
+  private async update(
+    userId: string,
+    change: (credential: UserCredential) => UserCredential | null
+  ): Promise<boolean> {
+    const release = await this.mutex.acquire();
+    try {
+      const credential = this.credentials.get(userId);
+      const changed = credential && change(credential);
+      if (!changed) return false;
+      this.credentials.set(userId, changed);
+      return true;
+    } finally {
+      release();
+    }
+  }
+}
+
+// SQL Credentials: One row per user, roles as a JSON array
+export class SqlCredentialStore implements ICredentialStore {
+  constructor(private db: ISqlExecutor) {}
+
+  async find(tenantId: string, userId: string): Promise<UserCredential | null> {
+    const rows = await this.db.query(
+      'SELECT * FROM user_credentials WHERE user_id = $1 AND tenant_id = $2',
+      [userId, tenantId]
+    );
+    if (rows.length === 0) return null;
+
+    const row = rows[0];
+    return {
+      userId: textColumn(row, 'user_id'),
+      tenantId: textColumn(row, 'tenant_id'),
+      passwordHash: textColumn(row, 'password_hash'),
+      roles: jsonColumn<Role[]>(row, 'roles'),
+      failedAttempts: integerColumn(row, 'failed_attempts'),
+      lockedUntil: nullableDateColumn(row, 'locked_until'),
+      updatedAt: dateColumn(row, 'updated_at'),
+    };
+  }
+
+  async add(credential: UserCredential): Promise<boolean> {
+    const rows = await this.db.query(
+      `INSERT INTO user_credentials
+         (user_id, tenant_id, password_hash, roles, failed_attempts, locked_until, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (user_id) DO NOTHING
+       RETURNING user_id`,
+      credentialParams(credential)
+    );
+    return rows.length > 0;
+  }
+
+  async save(credential: UserCredential): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO user_credentials
+         (user_id, tenant_id, password_hash, roles, failed_attempts, locked_until, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (user_id) DO UPDATE SET
+         password_hash = excluded.password_hash, roles = excluded.roles,
+         failed_attempts = excluded.failed_attempts, locked_until = excluded.locked_until,
+         updated_at = excluded.updated_at`,
+      credentialParams(credential)
+    );
+  }
+
+  // Counted in the row itself, so concurrent failures cannot overwrite each other
+  async recordFailure(userId: string, now: Date, policy: LockoutPolicy): Promise<void> {
+    await this.db.execute(
+      `UPDATE user_credentials SET
+         locked_until = CASE WHEN failed_attempts + 1 >= $3 THEN $4 ELSE locked_until END,
+         failed_attempts = CASE WHEN failed_attempts + 1 >= $3 THEN 0 ELSE failed_attempts + 1 END,
+         updated_at = $2
+       WHERE user_id = $1`,
+      [userId, now.toISOString(), policy.maxFailures, new Date(now.getTime() + policy.lockoutMs).toISOString()]
+    );
+  }
+
+  async resetFailures(userId: string, now: Date): Promise<boolean> {
+    const rows = await this.db.query(
+      `UPDATE user_credentials SET failed_attempts = 0, locked_until = NULL, updated_at = $2
+       WHERE user_id = $1 AND (locked_until IS NULL OR locked_until <= $2)
+       RETURNING user_id`,
+      [userId, now.toISOString()]
+    );
+    return rows.length > 0;
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.db.execute('DELETE FROM user_credentials WHERE user_id = $1', [userId]);
+  }
+}
+
+function credentialParams(credential: UserCredential): unknown[] {
+  return [
+    credential.userId,
+    credential.tenantId,
+    credential.passwordHash,
+    JSON.stringify(credential.roles),
+    credential.failedAttempts,
+    credential.lockedUntil?.toISOString() ?? null,
+    credential.updatedAt.toISOString(),
+  ];
+}
+
+// In-Memory Sessions
+export class InMemorySessionStore implements ISessionStore {
+  private sessions = new Map<string, Session>();
+
+  async find(id: string): Promise<Session | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async save(session: Session): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async replace(id: string, replacedBy: string, at: Date): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session || session.replacedBy !== null || session.revokedAt !== null) return false;
+    session.revokedAt = at;
+    session.replacedBy = replacedBy;
+    return true;
+  }
+
+  async revokeAll(userId: string, at: Date): Promise<void> {
+    for (const session of this.sessions.values()) {
+      if (session.userId === userId && session.revokedAt === null) session.revokedAt = at;
+    }
+  }
+
+  async deleteAll(userId: string): Promise<void> {
+    for (const [id, session] of this.sessions) {
+      if (session.userId === userId) this.sessions.delete(id);
+    }
+  }
+}
+
+// SQL Sessions: Rows outlive their expiry; purge old ones on whatever schedule suits
+export class SqlSessionStore implements ISessionStore {
+  constructor(private db: ISqlExecutor) {}
+
+  async find(id: string): Promise<Session | null> {
+    const rows = await this.db.query('SELECT * FROM user_sessions WHERE id = $1', [id]);
+    if (rows.length === 0) return null;
+
+    const row = rows[0];
+    return {
+      id: textColumn(row, 'id'),
+      userId: textColumn(row, 'user_id'),
+      tenantId: textColumn(row, 'tenant_id'),
+      createdAt: dateColumn(row, 'created_at'),
+      expiresAt: dateColumn(row, 'expires_at'),
+      revokedAt: nullableDateColumn(row, 'revoked_at'),
+      replacedBy: nullableTextColumn(row, 'replaced_by'),
+    };
+  }
+
+  async save(session: Session): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO user_sessions (id, user_id, tenant_id, created_at, expires_at, revoked_at, replaced_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (id) DO UPDATE SET revoked_at = excluded.revoked_at, replaced_by = excluded.replaced_by`,
       [
-        user.id.value,
-        user.name,
-        user.email,
-        user.createdAt.toISOString(),
-        user.updatedAt.toISOString(),
+        session.id,
+        session.userId,
+        session.tenantId,
+        session.createdAt.toISOString(),
+        session.expiresAt.toISOString(),
+        session.revokedAt?.toISOString() ?? null,
+        session.replacedBy,
       ]
     );
   }
 
-  async delete(id: UserId): Promise<void> {
-    await this.db.execute('DELETE FROM users WHERE id = $1', [id.value]);
+  async replace(id: string, replacedBy: string, at: Date): Promise<boolean> {
+    const rows = await this.db.query(
+      `UPDATE user_sessions SET revoked_at = $3, replaced_by = $2
+       WHERE id = $1 AND replaced_by IS NULL AND revoked_at IS NULL
+       RETURNING id`,
+      [id, replacedBy, at.toISOString()]
+    );
+    return rows.length > 0;
+  }
+
+  async revokeAll(userId: string, at: Date): Promise<void> {
+    await this.db.execute(
+      'UPDATE user_sessions SET revoked_at = $1 WHERE user_id = $2 AND revoked_at IS NULL',
+      [at.toISOString(), userId]
+    );
+  }
+
+  async deleteAll(userId: string): Promise<void> {
+    await this.db.execute('DELETE FROM user_sessions WHERE user_id = $1', [userId]);
   }
 }
 
 // Factory: Creates appropriate repository based on environment
+// SQL databases must already be migrated (see MigrationRunner in ./migrations)
+export interface RepositoryOptions {
+  // Wrap the adapter in a read-through cache (true for defaults)
+  cache?: boolean | UserCacheOptions;
+  // Persist users as event streams instead of rows (true for defaults)
+  eventSourced?: boolean | EventSourcedRepositoryOptions;
+}
+
 export class RepositoryFactory {
-  static createUserRepository(type: 'memory' | 'postgres', db?: IDatabaseConnection): IUserRepository {
+  static createUserRepository(
+    type: 'memory' | 'postgres' | 'sqlite',
+    db?: IDatabaseConnection,
+    options: RepositoryOptions = {}
+  ): IUserRepository {
+    const repository = RepositoryFactory.createAdapter(type, db, options);
+    if (!options.cache) return repository;
+
+    return new CachingUserRepository(repository, options.cache === true ? {} : options.cache);
+  }
+
+  private static createAdapter(
+    type: 'memory' | 'postgres' | 'sqlite',
+    db?: IDatabaseConnection,
+    options: RepositoryOptions = {}
+  ): IUserRepository {
+    const eventSourced = options.eventSourced === true ? {} : options.eventSourced || null;
+
     if (type === 'memory') {
-      return new InMemoryUserRepository();
+      return eventSourced
+        ? new EventSourcedUserRepository(new InMemoryUserEventStore(), eventSourced)
+        : new InMemoryUserRepository();
     }
 
-    if (type === 'postgres' && db) {
-      return new PostgresUserRepository(db);
+    if ((type === 'postgres' || type === 'sqlite') && db) {
+      return eventSourced
+        ? new EventSourcedUserRepository(new SqlUserEventStore(db), eventSourced)
+        : new SqlUserRepository(db);
     }
 
     throw new Error(`Unknown repository type: ${type}`);
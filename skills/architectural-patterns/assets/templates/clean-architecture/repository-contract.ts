@@ -0,0 +1,371 @@
+/**
+ * Clean Architecture: Repository Contract Suite
+ * One set of behavioural checks every IUserRepository adapter must pass
+ *
+ * Run it like any suite in ./contracts, or call runUserRepositoryContract(createRepository)
+ * for a report; runContractsExample in ./index runs it against every adapter.
+ */
+
+import { strict as assert } from 'node:assert';
+import { User } from './entities';
+import { IUserRepository } from './use-cases';
+import { VersionConflictError } from './errors';
+import { UserListQuery } from './user-queries';
+import { FixedClock } from './clock';
+import { ContractCheck, ContractResult, ContractTarget, ContractTargetFactory, runContract } from './contracts';
+
+export interface UserRepositoryTarget extends ContractTarget {
+  repository: IUserRepository;
+}
+
+// Factory: Returns a fresh, empty repository (plus optional teardown) per check
+export type UserRepositoryFactory = ContractTargetFactory<UserRepositoryTarget>;
+
+const clock = new FixedClock(new Date('2024-05-05T05:05:05.505Z'));
+
+// Every check works in TENANT; the isolation checks also write to OTHER_TENANT
+const TENANT = 'tenant-a';
+const OTHER_TENANT = 'tenant-b';
+
+function makeUser(
+  id: string,
+  overrides: Partial<{ tenantId: string; name: string; email: string; createdAt: Date; updatedAt: Date }> = {}
+): User {
+  return new User(
+    { value: id },
+    overrides.tenantId ?? TENANT,
+    overrides.name ?? `User ${id}`,
+    overrides.email ?? `${id}@example.com`,
+    overrides.createdAt ?? new Date('2024-01-15T10:20:30.456Z'),
+    overrides.updatedAt ?? new Date('2024-02-20T11:22:33.789Z')
+  );
+}
+
+export const USER_REPOSITORY_CONTRACT: ContractCheck<UserRepositoryTarget>[] = [
+  {
+    name: 'findById returns null for an unknown id',
+    async run({ repository }) {
+      assert.equal(await repository.findById(TENANT, { value: 'missing' }), null);
+    },
+  },
+  {
+    name: 'save then findById round-trips every field',
+    async run({ repository }) {
+      await repository.save(makeUser('u1', { name: 'Ada Lovelace', email: 'ada@example.com' }));
+
+      const found = await repository.findById(TENANT, { value: 'u1' });
+      assert.ok(found, 'saved user should be found');
+      assert.equal(found.id.value, 'u1');
+      assert.equal(found.name, 'Ada Lovelace');
+      assert.equal(found.email, 'ada@example.com');
+    },
+  },
+  {
+    name: 'dates round-trip with millisecond precision',
+    async run({ repository }) {
+      const createdAt = new Date('2023-12-31T23:59:59.999Z');
+      const updatedAt = new Date('2024-06-01T00:00:00.001Z');
+      await repository.save(makeUser('u1', { createdAt, updatedAt }));
+
+      const found = await repository.findById(TENANT, { value: 'u1' });
+      assert.ok(found);
+      assert.ok(found.createdAt instanceof Date, 'createdAt should be a Date');
+      assert.equal(found.createdAt.getTime(), createdAt.getTime());
+      assert.equal(found.updatedAt.getTime(), updatedAt.getTime());
+    },
+  },
+  {
+    name: 'save upserts: a second save replaces mutable fields, keeps one record',
+    async run({ repository }) {
+      const user = makeUser('u1');
+      await repository.save(user);
+
+      user.updateProfile('Renamed', 'renamed@example.com', clock);
+      await repository.save(user);
+
+      const found = await repository.findById(TENANT, { value: 'u1' });
+      assert.ok(found);
+      assert.equal(found.name, 'Renamed');
+      assert.equal(found.email, 'renamed@example.com');
+      assert.equal(found.createdAt.getTime(), user.createdAt.getTime());
+      assert.equal(await repository.findByEmail(TENANT, makeUser('u1').email), null);
+    },
+  },
+  {
+    name: 'save assigns version 1 on insert and bumps it on every update',
+    async run({ repository }) {
+      const user = makeUser('u1');
+      assert.equal(user.version, 0);
+
+      await repository.save(user);
+      assert.equal(user.version, 1);
+      assert.equal((await repository.findById(TENANT, { value: 'u1' }))?.version, 1);
+
+      user.updateProfile('Renamed', user.email, clock);
+      await repository.save(user);
+      assert.equal(user.version, 2);
+      assert.equal((await repository.findById(TENANT, { value: 'u1' }))?.version, 2);
+    },
+  },
+  {
+    name: 'save with a stale version throws VersionConflictError and changes nothing',
+    async run({ repository }) {
+      await repository.save(makeUser('u1', { name: 'Original' }));
+
+      const first = await repository.findById(TENANT, { value: 'u1' });
+      const second = await repository.findById(TENANT, { value: 'u1' });
+      assert.ok(first && second);
+
+      first.updateProfile('First writer', first.email, clock);
+      await repository.save(first);
+
+      second.updateProfile('Second writer', second.email, clock);
+      await assert.rejects(repository.save(second), VersionConflictError);
+      assert.equal((await repository.findById(TENANT, { value: 'u1' }))?.name, 'First writer');
+    },
+  },
+  {
+    name: 'inserting a new entity over an existing id throws VersionConflictError',
+    async run({ repository }) {
+      await repository.save(makeUser('u1', { name: 'Original' }));
+
+      await assert.rejects(repository.save(makeUser('u1', { name: 'Impostor' })), VersionConflictError);
+      assert.equal((await repository.findById(TENANT, { value: 'u1' }))?.name, 'Original');
+    },
+  },
+  {
+    name: 'returned entities are detached until saved',
+    async run({ repository }) {
+      await repository.save(makeUser('u1', { name: 'Original' }));
+
+      const found = await repository.findById(TENANT, { value: 'u1' });
+      assert.ok(found);
+      found.updateProfile('Changed in memory', found.email, clock);
+
+      const again = await repository.findById(TENANT, { value: 'u1' });
+      assert.equal(again?.name, 'Original');
+    },
+  },
+  {
+    name: 'delete removes the user for good (not a soft delete)',
+    async run({ repository }) {
+      await repository.save(makeUser('u1'));
+      await repository.delete(TENANT, { value: 'u1' });
+
+      assert.equal(await repository.findById(TENANT, { value: 'u1' }), null);
+      assert.equal(await repository.findById(TENANT, { value: 'u1' }, { includeDeleted: true }), null);
+      assert.equal(await repository.findByEmail(TENANT, 'u1@example.com'), null);
+    },
+  },
+  {
+    name: 'delete of a missing user resolves without error',
+    async run({ repository }) {
+      await repository.delete(TENANT, { value: 'missing' });
+    },
+  },
+  {
+    name: 'soft-deleted users are hidden from findById, findByEmail and list',
+    async run({ repository }) {
+      const user = makeUser('u1');
+      await repository.save(user);
+      await repository.save(makeUser('u2'));
+
+      user.markDeleted(clock);
+      await repository.save(user);
+
+      assert.equal(await repository.findById(TENANT, { value: 'u1' }), null);
+      assert.equal(await repository.findByEmail(TENANT, 'u1@example.com'), null);
+      const page = await repository.list(TENANT, { limit: 10, sortBy: 'name', sortOrder: 'asc' });
+      assert.deepEqual(page.users.map((u) => u.id.value), ['u2']);
+    },
+  },
+  {
+    name: 'includeDeleted loads a soft-deleted user with deletedAt, and saving it restored unhides it',
+    async run({ repository }) {
+      const user = makeUser('u1');
+      await repository.save(user);
+      user.markDeleted(clock);
+      await repository.save(user);
+
+      const deleted = await repository.findById(TENANT, { value: 'u1' }, { includeDeleted: true });
+      assert.ok(deleted, 'soft-deleted user should load with includeDeleted');
+      assert.equal(deleted.deletedAt?.getTime(), clock.now().getTime());
+      assert.equal(deleted.version, 2);
+
+      deleted.restore(clock);
+      await repository.save(deleted);
+
+      const restored = await repository.findById(TENANT, { value: 'u1' });
+      assert.ok(restored, 'restored user should be visible again');
+      assert.equal(restored.deletedAt, null);
+      assert.equal((await repository.findByEmail(TENANT, 'u1@example.com'))?.id.value, 'u1');
+    },
+  },
+  {
+    name: 'a soft-deleted user does not shadow a newer user with the same email',
+    async run({ repository }) {
+      const email = 'reused@example.com';
+      const old = makeUser('old', { email, createdAt: new Date('2024-01-01T00:00:00.000Z') });
+      await repository.save(old);
+      old.markDeleted(clock);
+      await repository.save(old);
+      await repository.save(makeUser('new', { email, createdAt: new Date('2024-03-01T00:00:00.000Z') }));
+
+      assert.equal((await repository.findByEmail(TENANT, email))?.id.value, 'new');
+    },
+  },
+  {
+    name: 'findByEmail returns the matching user or null',
+    async run({ repository }) {
+      await repository.save(makeUser('u1', { email: 'one@example.com' }));
+      await repository.save(makeUser('u2', { email: 'two@example.com' }));
+
+      assert.equal((await repository.findByEmail(TENANT, 'two@example.com'))?.id.value, 'u2');
+      assert.equal(await repository.findByEmail(TENANT, 'three@example.com'), null);
+    },
+  },
+  {
+    name: 'findByEmail matches the stored email exactly (case-sensitive)',
+    async run({ repository }) {
+      await repository.save(makeUser('u1', { email: 'Mixed.Case@example.com' }));
+
+      assert.equal((await repository.findByEmail(TENANT, 'Mixed.Case@example.com'))?.id.value, 'u1');
+      assert.equal(await repository.findByEmail(TENANT, 'mixed.case@example.com'), null);
+    },
+  },
+  {
+    name: 'list pages through every user exactly once in sort order',
+    async run({ repository }) {
+      const names = ['Eve', 'bob', 'Alice', 'Dave', 'Carol', 'Alice'];
+      for (const [i, name] of names.entries()) {
+        await repository.save(makeUser(`u${i}`, { name }));
+      }
+
+      for (const sortOrder of ['asc', 'desc'] as const) {
+        const query: UserListQuery = { limit: 2, sortBy: 'name', sortOrder };
+        const seen: string[] = [];
+        let page = await repository.list(TENANT, query);
+        seen.push(...page.users.map((u) => u.id.value));
+
+        while (page.hasMore) {
+          const last = page.users[page.users.length - 1];
+          page = await repository.list(TENANT, { ...query, after: { key: last.name, id: last.id.value } });
+          seen.push(...page.users.map((u) => u.id.value));
+        }
+
+        // Binary ordering (uppercase before lowercase), ties broken by id
+        const expected = ['u2', 'u5', 'u4', 'u3', 'u0', 'u1'];
+        assert.deepEqual(seen, sortOrder === 'asc' ? expected : [...expected].reverse());
+      }
+    },
+  },
+  {
+    name: 'list sorts by createdAt and reports hasMore only when rows remain',
+    async run({ repository }) {
+      await repository.save(makeUser('b', { createdAt: new Date('2024-02-01T00:00:00.000Z') }));
+      await repository.save(makeUser('a', { createdAt: new Date('2024-03-01T00:00:00.000Z') }));
+      await repository.save(makeUser('c', { createdAt: new Date('2024-01-01T00:00:00.000Z') }));
+
+      const full = await repository.list(TENANT, { limit: 3, sortBy: 'createdAt', sortOrder: 'desc' });
+      assert.deepEqual(full.users.map((u) => u.id.value), ['a', 'b', 'c']);
+      assert.equal(full.hasMore, false);
+
+      const first = await repository.list(TENANT, { limit: 2, sortBy: 'createdAt', sortOrder: 'asc' });
+      assert.deepEqual(first.users.map((u) => u.id.value), ['c', 'b']);
+      assert.equal(first.hasMore, true);
+    },
+  },
+  {
+    name: 'list filters by email domain and name substring, case-insensitively',
+    async run({ repository }) {
+      await repository.save(makeUser('u1', { name: 'Ada Lovelace', email: 'ada@Example.com' }));
+      await repository.save(makeUser('u2', { name: 'Grace Hopper', email: 'grace@navy.mil' }));
+      await repository.save(makeUser('u3', { name: 'Adam Smith', email: 'adam@sub.example.com' }));
+      await repository.save(makeUser('u4', { name: '100%_real', email: 'pct@example.com' }));
+
+      const base = { limit: 10, sortBy: 'name', sortOrder: 'asc' } as const;
+      const byDomain = await repository.list(TENANT, { ...base, emailDomain: 'EXAMPLE.com' });
+      assert.deepEqual(byDomain.users.map((u) => u.id.value).sort(), ['u1', 'u4']);
+
+      const byName = await repository.list(TENANT, { ...base, nameContains: 'ADA' });
+      assert.deepEqual(byName.users.map((u) => u.id.value).sort(), ['u1', 'u3']);
+
+      const wildcard = await repository.list(TENANT, { ...base, nameContains: '%_' });
+      assert.deepEqual(wildcard.users.map((u) => u.id.value), ['u4']);
+
+      const both = await repository.list(TENANT, {
+        ...base,
+        emailDomain: 'example.com',
+        nameContains: 'lace',
+      });
+      assert.deepEqual(both.users.map((u) => u.id.value), ['u1']);
+    },
+  },
+  {
+    name: "findById and findByEmail never return another tenant's user",
+    async run({ repository }) {
+      await repository.save(makeUser('u1', { tenantId: OTHER_TENANT }));
+
+      assert.equal(await repository.findById(TENANT, { value: 'u1' }), null);
+      assert.equal(await repository.findById(TENANT, { value: 'u1' }, { includeDeleted: true }), null);
+      assert.equal(await repository.findByEmail(TENANT, 'u1@example.com'), null);
+      assert.equal((await repository.findById(OTHER_TENANT, { value: 'u1' }))?.id.value, 'u1');
+    },
+  },
+  {
+    name: 'the same email belongs to a different user in each tenant',
+    async run({ repository }) {
+      const email = 'shared@example.com';
+      await repository.save(makeUser('a1', { email, createdAt: new Date('2024-03-01T00:00:00.000Z') }));
+      await repository.save(
+        makeUser('b1', { tenantId: OTHER_TENANT, email, createdAt: new Date('2024-01-01T00:00:00.000Z') })
+      );
+
+      assert.equal((await repository.findByEmail(TENANT, email))?.id.value, 'a1');
+      assert.equal((await repository.findByEmail(OTHER_TENANT, email))?.id.value, 'b1');
+    },
+  },
+  {
+    name: "list returns only the tenant's own users",
+    async run({ repository }) {
+      await repository.save(makeUser('a1'));
+      await repository.save(makeUser('b1', { tenantId: OTHER_TENANT }));
+      await repository.save(makeUser('a2'));
+
+      const query = { limit: 10, sortBy: 'name', sortOrder: 'asc' } as const;
+      assert.deepEqual((await repository.list(TENANT, query)).users.map((u) => u.id.value), ['a1', 'a2']);
+      assert.deepEqual((await repository.list(OTHER_TENANT, query)).users.map((u) => u.id.value), ['b1']);
+    },
+  },
+  {
+    name: "delete leaves another tenant's user in place",
+    async run({ repository }) {
+      await repository.save(makeUser('u1', { tenantId: OTHER_TENANT }));
+      await repository.delete(TENANT, { value: 'u1' });
+
+      assert.equal((await repository.findById(OTHER_TENANT, { value: 'u1' }))?.id.value, 'u1');
+    },
+  },
+  {
+    name: 'saving over an id held by another tenant throws VersionConflictError',
+    async run({ repository }) {
+      const owner = makeUser('u1', { tenantId: OTHER_TENANT, name: 'Owner' });
+      await repository.save(owner);
+
+      await assert.rejects(repository.save(makeUser('u1', { name: 'Intruder' })), VersionConflictError);
+      // Even with the right version, the tenant is not the entity's to change
+      const moved = makeUser('u1', { name: 'Intruder' });
+      moved.version = owner.version;
+      await assert.rejects(repository.save(moved), VersionConflictError);
+      assert.equal((await repository.findById(OTHER_TENANT, { value: 'u1' }))?.name, 'Owner');
+    },
+  },
+];
+
+// Run the whole suite and collect a pass/fail report instead of throwing
+export function runUserRepositoryContract(
+  factory: UserRepositoryFactory,
+  checks: ContractCheck<UserRepositoryTarget>[] = USER_REPOSITORY_CONTRACT
+): Promise<ContractResult[]> {
+  return runContract(checks, factory);
+}
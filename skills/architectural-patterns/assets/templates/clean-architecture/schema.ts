@@ -0,0 +1,170 @@
+/**
+ * Clean Architecture: DTO Schemas (Interface Adapters Layer)
+ * Declarative request/response shapes - One definition validates input and documents the API
+ */
+
+import { FieldError, Result, ValidationFailedError, err, ok } from './errors';
+
+// Schemas are a JSON Schema subset (plus nullable), so API docs can embed them almost as-is
+interface SchemaDocs {
+  description?: string;
+  example?: unknown;
+  nullable?: boolean;
+}
+
+export interface StringSchema extends SchemaDocs {
+  type: 'string';
+  minLength?: number;
+  maxLength?: number;
+  // password only tells API docs and UIs to mask the value
+  format?: 'email' | 'date' | 'date-time' | 'password';
+  pattern?: string;
+  enum?: readonly string[];
+}
+
+export interface IntegerSchema extends SchemaDocs {
+  type: 'integer';
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends SchemaDocs {
+  type: 'boolean';
+}
+
+export interface ArraySchema extends SchemaDocs {
+  type: 'array';
+  items: Schema;
+  maxItems?: number;
+}
+
+export interface ObjectSchema extends SchemaDocs {
+  type: 'object';
+  properties: Record<string, Schema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+}
+
+export type Schema = StringSchema | IntegerSchema | BooleanSchema | ArraySchema | ObjectSchema;
+
+// Deliberately loose: one @, no whitespace, a dot in the domain
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// A real calendar day: 2024-02-30 has the right shape but does not exist
+function isCalendarDate(value: string): boolean {
+  const instant = new Date(`${value}T00:00:00.000Z`);
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(instant.getTime()) &&
+    instant.toISOString().startsWith(value)
+  );
+}
+
+// Walks the whole value and reports every violation, not just the first
+export function validateSchema(schema: Schema, value: unknown, path = ''): FieldError[] {
+  const field = path || '(root)';
+  if (value === null && schema.nullable) return [];
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [{ field, message: 'must be a string' }];
+      return checkString(schema, value, field);
+
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return [{ field, message: 'must be an integer' }];
+      }
+      return checkInteger(schema, value, field);
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ field, message: 'must be a boolean' }];
+
+    case 'array': {
+      if (!Array.isArray(value)) return [{ field, message: 'must be an array' }];
+      const errors: FieldError[] = [];
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push({ field, message: `must contain at most ${schema.maxItems} items` });
+      }
+      value.forEach((item, index) => errors.push(...validateSchema(schema.items, item, `${path}[${index}]`)));
+      return errors;
+    }
+
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [{ field, message: 'must be an object' }];
+      }
+      return checkObject(schema, value as Record<string, unknown>, path);
+  }
+}
+
+// Validate untrusted input against a schema; all field errors travel in one ValidationFailedError
+export function parseWithSchema<T>(schema: Schema, value: unknown): Result<T, ValidationFailedError> {
+  const errors = validateSchema(schema, value);
+  return errors.length > 0 ? err(validationError(errors)) : ok(value as T);
+}
+
+// Several field errors as one failure, summarised in the message
+export function validationError(errors: FieldError[]): ValidationFailedError {
+  const summary = errors.length === 1 ? '1 field is invalid' : `${errors.length} fields are invalid`;
+  return new ValidationFailedError(`Request validation failed: ${summary}`, undefined, errors);
+}
+
+function checkString(schema: StringSchema, value: string, field: string): FieldError[] {
+  const errors: FieldError[] = [];
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({
+      field,
+      message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`,
+    });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push({ field, message: `must be at most ${schema.maxLength} characters` });
+  }
+  if (schema.format === 'email' && !EMAIL_PATTERN.test(value)) {
+    errors.push({ field, message: 'must be a valid email address' });
+  }
+  if (schema.format === 'date' && !isCalendarDate(value)) {
+    errors.push({ field, message: 'must be an ISO-8601 date (YYYY-MM-DD)' });
+  }
+  if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+    errors.push({ field, message: 'must be an ISO-8601 date-time' });
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    errors.push({ field, message: `must match ${schema.pattern}` });
+  }
+  if (schema.enum !== undefined && !schema.enum.includes(value)) {
+    errors.push({ field, message: `must be one of ${schema.enum.join(', ')}` });
+  }
+  return errors;
+}
+
+function checkInteger(schema: IntegerSchema, value: number, field: string): FieldError[] {
+  const errors: FieldError[] = [];
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ field, message: `must be at least ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push({ field, message: `must be at most ${schema.maximum}` });
+  }
+  return errors;
+}
+
+function checkObject(schema: ObjectSchema, value: Record<string, unknown>, path: string): FieldError[] {
+  const errors: FieldError[] = [];
+  const child = (key: string) => (path ? `${path}.${key}` : key);
+
+  for (const [key, propertySchema] of Object.entries(schema.properties)) {
+    if (value[key] === undefined) {
+      if (schema.required?.includes(key)) errors.push({ field: child(key), message: 'is required' });
+      continue;
+    }
+    errors.push(...validateSchema(propertySchema, value[key], child(key)));
+  }
+
+  if (schema.additionalProperties === false) {
+    for (const key of Object.keys(value)) {
+      if (!Object.hasOwn(schema.properties, key)) errors.push({ field: child(key), message: 'is not allowed' });
+    }
+  }
+  return errors;
+}
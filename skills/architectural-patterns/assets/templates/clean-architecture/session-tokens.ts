@@ -0,0 +1,91 @@
+/**
+ * Clean Architecture: Session Token Port
+ * Signed, expiring bearer tokens - The session store still decides whether one counts
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// What a token asserts. It names a session rather than carrying roles, so revoking the session
+// (logout, password change, rotation) ends the token before it expires.
+export interface SessionClaims {
+  sessionId: string;
+  userId: string;
+  tenantId: string;
+  expiresAt: Date;
+}
+
+export interface SessionTokenSigner {
+  sign(claims: SessionClaims): string;
+  // Claims of a token whose signature checks out, expired or not; null for anything else
+  verify(token: string): SessionClaims | null;
+}
+
+interface TokenPayload {
+  sid: string;
+  sub: string;
+  tid: string;
+  // Unix milliseconds
+  exp: number;
+}
+
+// HMAC-SHA256 over a base64url JSON payload: payload.signature.
+// Every process that checks tokens needs the same secret; the default one only lives as long
+// as the process, so tokens stop working on restart.
+export class HmacSessionTokenSigner implements SessionTokenSigner {
+  private readonly secret: Buffer;
+
+  constructor(secret: Buffer | string = randomBytes(32)) {
+    this.secret = Buffer.from(secret);
+    if (this.secret.length < 32) {
+      throw new Error('Session token secret must be at least 32 bytes');
+    }
+  }
+
+  sign(claims: SessionClaims): string {
+    const payload: TokenPayload = {
+      sid: claims.sessionId,
+      sub: claims.userId,
+      tid: claims.tenantId,
+      exp: claims.expiresAt.getTime(),
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${this.signature(encoded).toString('base64url')}`;
+  }
+
+  verify(token: string): SessionClaims | null {
+    const [encoded, signature, ...rest] = token.split('.');
+    if (signature === undefined || rest.length > 0) return null;
+
+    const expected = this.signature(encoded);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    const payload = parsePayload(Buffer.from(encoded, 'base64url').toString('utf8'));
+    return (
+      payload && {
+        sessionId: payload.sid,
+        userId: payload.sub,
+        tenantId: payload.tid,
+        expiresAt: new Date(payload.exp),
+      }
+    );
+  }
+
+  private signature(encoded: string): Buffer {
+    return createHmac('sha256', this.secret).update(encoded).digest();
+  }
+}
+
+function parsePayload(json: string): TokenPayload | null {
+  try {
+    const payload = JSON.parse(json);
+    return typeof payload?.sid === 'string' &&
+      typeof payload.sub === 'string' &&
+      typeof payload.tid === 'string' &&
+      Number.isFinite(payload.exp)
+      ? payload
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Clean Architecture: SQLite Driver (Frameworks & Drivers Layer)
+ * Embedded SQL database - Runs in-process, no server required
+ *
+ * Uses the built-in node:sqlite module (Node.js 22.5+).
+ */
+
+import { DatabaseSync, SQLInputValue } from 'node:sqlite';
+import { IDatabaseConnection, IDatabaseTransaction, SqlRow } from './repositories';
+import { Mutex } from './mutex';
+
+// SQLite Connection: Implements the same port as a Postgres client
+// A single connection runs one transaction at a time; statements issued outside
+// the transaction wait for it to finish instead of leaking into it.
+export class SqliteDatabaseConnection implements IDatabaseConnection {
+  private db: DatabaseSync;
+  private mutex = new Mutex();
+
+  // ':memory:' gives a throwaway database, a file path persists between runs
+  constructor(location: string = ':memory:') {
+    this.db = new DatabaseSync(location);
+  }
+
+  async query(sql: string, params: unknown[]): Promise<SqlRow[]> {
+    const release = await this.mutex.acquire();
+    try {
+      return this.queryNow(sql, params);
+    } finally {
+      release();
+    }
+  }
+
+  async execute(sql: string, params: unknown[]): Promise<void> {
+    const release = await this.mutex.acquire();
+    try {
+      this.executeNow(sql, params);
+    } finally {
+      release();
+    }
+  }
+
+  async begin(): Promise<IDatabaseTransaction> {
+    const release = await this.mutex.acquire();
+    try {
+      // IMMEDIATE takes the write lock up front, so other processes cannot sneak in
+      this.db.exec('BEGIN IMMEDIATE');
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    let active = true;
+    const guard = () => {
+      if (!active) throw new Error('Transaction already completed');
+    };
+    const end = (statement: 'COMMIT' | 'ROLLBACK') => {
+      guard();
+      try {
+        this.db.exec(statement);
+      } catch (error) {
+        // A failed COMMIT (SQLITE_BUSY, say) leaves the transaction open: end it here,
+        // or every later BEGIN on this connection fails
+        if (this.db.isTransaction) this.db.exec('ROLLBACK');
+        throw error;
+      } finally {
+        // Ended only once SQLite agrees; until then rollback() can still be called
+        active = this.db.isTransaction;
+        if (!active) release();
+      }
+    };
+
+    return {
+      query: async (sql, params) => {
+        guard();
+        return this.queryNow(sql, params);
+      },
+      execute: async (sql, params) => {
+        guard();
+        this.executeNow(sql, params);
+      },
+      commit: async () => end('COMMIT'),
+      rollback: async () => end('ROLLBACK'),
+    };
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private queryNow(sql: string, params: unknown[]): SqlRow[] {
+    return this.db.prepare(toSqlitePlaceholders(sql)).all(...toSqliteValues(params));
+  }
+
+  private executeNow(sql: string, params: unknown[]): void {
+    if (params.length === 0) {
+      // exec() accepts multi-statement scripts such as migrations
+      this.db.exec(sql);
+      return;
+    }
+    this.db.prepare(toSqlitePlaceholders(sql)).run(...toSqliteValues(params));
+  }
+}
+
+// Postgres-style "$1" placeholders become SQLite's numbered "?1",
+// so repositories can share one SQL dialect across both drivers
+function toSqlitePlaceholders(sql: string): string {
+  return sql.replace(/\$(\d+)/g, '?$1');
+}
+
+function toSqliteValues(params: unknown[]): SQLInputValue[] {
+  return params.map((value) => {
+    if (value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (
+      value === null ||
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'bigint' ||
+      value instanceof Uint8Array
+    ) {
+      return value;
+    }
+    throw new TypeError(`Cannot bind a ${typeof value} parameter`);
+  });
+}
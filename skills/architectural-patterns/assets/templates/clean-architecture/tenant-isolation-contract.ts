@@ -0,0 +1,212 @@
+/**
+ * Clean Architecture: Tenant Isolation Contract Suite
+ * Proves one tenant can never read, change or remove another's users - Driven through the API
+ *
+ * Run it like any suite in ./contracts, or call
+ * runTenantIsolationContract(sqlTenantTarget(() => new SqliteDatabaseConnection())) for a report.
+ */
+
+import { strict as assert } from 'node:assert';
+import { Application } from './index';
+import { Actor } from './authorization';
+import { TOKENS } from './modules';
+import { ContractCheck, ContractResult, ContractTarget, ContractTargetFactory, runContract } from './contracts';
+import {
+  IDatabaseConnection,
+  SqlAuditLog,
+  SqlCredentialStore,
+  SqlOutbox,
+  SqlSessionStore,
+  SqlUserReadModelStore,
+  SqlUserRepository,
+} from './repositories';
+import { SqlUnitOfWorkFactory } from './unit-of-work';
+import { MigrationRunner } from './migrations';
+import { CreateUserHttpRequest } from './controllers';
+
+export interface TenantIsolationTarget extends ContractTarget {
+  app: Application;
+}
+
+export type TenantIsolationTargetFactory = ContractTargetFactory<TenantIsolationTarget>;
+
+export type TenantIsolationCheck = ContractCheck<TenantIsolationTarget>;
+
+// Same actor ids in both tenants: only the tenant tells them apart
+const ACME_ADMIN: Actor = { id: 'admin', roles: ['admin'], tenantId: 'acme' };
+const ACME_AUDITOR: Actor = { id: 'auditor', roles: ['auditor'], tenantId: 'acme' };
+const GLOBEX_ADMIN: Actor = { id: 'admin', roles: ['admin'], tenantId: 'globex' };
+const GLOBEX_AUDITOR: Actor = { id: 'auditor', roles: ['auditor'], tenantId: 'globex' };
+
+const ACME_USER: CreateUserHttpRequest = { name: 'Wile E. Coyote', email: 'wile@acme.test' };
+const GLOBEX_USER: CreateUserHttpRequest = { name: 'Hank Scorpio', email: 'hank@globex.test' };
+
+async function createUser(app: Application, request: CreateUserHttpRequest, actor: Actor): Promise<string> {
+  const response = await app.createUser(request, actor);
+  assert.equal(response.status, 201, `create failed: ${JSON.stringify(response.problem)}`);
+  return response.data!.userId;
+}
+
+async function collect(lines: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const line of lines) text += line;
+  return text;
+}
+
+export const TENANT_ISOLATION_CONTRACT: TenantIsolationCheck[] = [
+  {
+    name: 'emails are unique within a tenant, and free to reuse in another',
+    async run({ app }) {
+      const acmeId = await createUser(app, ACME_USER, ACME_ADMIN);
+      const globexId = await createUser(app, ACME_USER, GLOBEX_ADMIN);
+      const otherAcmeId = await createUser(app, GLOBEX_USER, ACME_ADMIN);
+
+      assert.notEqual(acmeId, globexId);
+      assert.equal((await app.createUser(ACME_USER, ACME_ADMIN)).status, 409);
+      assert.equal((await app.updateUser(otherAcmeId, ACME_USER, '*', ACME_ADMIN)).status, 409);
+      assert.equal((await app.updateUser(acmeId, ACME_USER, '*', ACME_ADMIN)).status, 200);
+      assert.equal((await app.getUser(globexId, GLOBEX_ADMIN)).data?.email, ACME_USER.email);
+    },
+  },
+  {
+    name: "another tenant's user cannot be read, listed or exported",
+    async run({ app }) {
+      const userId = await createUser(app, ACME_USER, ACME_ADMIN);
+      await createUser(app, GLOBEX_USER, GLOBEX_ADMIN);
+
+      assert.equal((await app.getUser(userId, GLOBEX_ADMIN)).status, 404);
+      assert.equal((await app.exportUserData(userId, GLOBEX_ADMIN)).status, 404);
+      assert.equal((await app.getUserView(userId, GLOBEX_ADMIN)).ok, false);
+
+      const listed = await app.listUsers({}, GLOBEX_ADMIN);
+      assert.deepEqual(listed.data?.users.map((user) => user.email), [GLOBEX_USER.email]);
+    },
+  },
+  {
+    name: "another tenant's user cannot be updated, deleted or erased",
+    async run({ app }) {
+      const userId = await createUser(app, ACME_USER, ACME_ADMIN);
+      const before = await app.getUser(userId, ACME_ADMIN);
+
+      assert.equal((await app.updateUser(userId, GLOBEX_USER, '*', GLOBEX_ADMIN)).status, 404);
+      assert.equal((await app.deleteUser(userId, '*', GLOBEX_ADMIN)).status, 404);
+      assert.equal((await app.eraseUser(userId, '*', GLOBEX_ADMIN)).status, 404);
+
+      assert.deepEqual(await app.getUser(userId, ACME_ADMIN), before);
+    },
+  },
+  {
+    name: "another tenant's deleted user cannot be restored or erased",
+    async run({ app }) {
+      const userId = await createUser(app, ACME_USER, ACME_ADMIN);
+      assert.equal((await app.deleteUser(userId, '"1"', ACME_ADMIN)).status, 200);
+
+      assert.equal((await app.restoreUser(userId, '*', GLOBEX_ADMIN)).status, 404);
+      assert.equal((await app.eraseUser(userId, '*', GLOBEX_ADMIN)).status, 404);
+
+      const restored = await app.restoreUser(userId, '"2"', ACME_ADMIN);
+      assert.equal(restored.status, 200, 'the owner can still restore the untouched user');
+    },
+  },
+  {
+    name: "the audit log and reports only show the actor's own tenant",
+    async run({ app }) {
+      const acmeId = await createUser(app, ACME_USER, ACME_ADMIN);
+      const globexId = await createUser(app, GLOBEX_USER, GLOBEX_ADMIN);
+
+      const foreign = await app.queryAuditLog({ userId: acmeId }, GLOBEX_AUDITOR);
+      assert.deepEqual(foreign.data?.entries, []);
+      const own = await app.queryAuditLog({}, GLOBEX_AUDITOR);
+      assert.deepEqual(own.data?.entries.map((entry) => entry.userId), [globexId]);
+
+      const domains = await app.usersByDomain({}, GLOBEX_AUDITOR);
+      assert.deepEqual(domains.data?.domains, [{ domain: 'globex.test', users: 1 }]);
+      const recent = await app.recentlyUpdatedUsers({}, ACME_AUDITOR);
+      assert.deepEqual(recent.data?.users.map((view) => view.id), [acmeId]);
+      const signups = await app.signupsPerDay({}, ACME_AUDITOR);
+      assert.equal(signups.data?.days.reduce((total, day) => total + day.signups, 0), 1);
+    },
+  },
+  {
+    name: "a bulk export holds the actor's own tenant only",
+    async run({ app }) {
+      await createUser(app, ACME_USER, ACME_ADMIN);
+      await createUser(app, GLOBEX_USER, GLOBEX_ADMIN);
+
+      const exported = await app.exportUsers('ndjson', GLOBEX_AUDITOR);
+      assert.ok(exported.ok);
+      const text = await collect(exported.value);
+      assert.ok(text.includes(GLOBEX_USER.email));
+      assert.ok(!text.includes(ACME_USER.email), 'export leaked another tenant');
+    },
+  },
+  {
+    name: "an idempotency key never replays another tenant's response",
+    async run({ app }) {
+      const acme = await app.createUser(ACME_USER, ACME_ADMIN, 'same-key');
+      const globex = await app.createUser(ACME_USER, GLOBEX_ADMIN, 'same-key');
+
+      assert.equal(globex.status, 201);
+      assert.equal(globex.headers?.['Idempotent-Replayed'], undefined);
+      assert.notEqual(globex.data?.userId, acme.data?.userId);
+    },
+  },
+  {
+    name: "use cases refuse a request naming a tenant other than the actor's",
+    async run({ app }) {
+      const userId = await createUser(app, ACME_USER, ACME_ADMIN);
+
+      const result = await app.container
+        .resolve(TOKENS.getUser)
+        .execute({ userId, tenantId: ACME_ADMIN.tenantId, actor: GLOBEX_ADMIN });
+      assert.equal(result.ok, false);
+      assert.equal(!result.ok && result.error.code, 'FORBIDDEN');
+    },
+  },
+  {
+    name: 'a password only signs in to the tenant it was registered in',
+    async run({ app }) {
+      const credentials = { email: ACME_USER.email, password: 'acme-only passphrase' };
+      const registered = await app.register({ ...ACME_USER, password: credentials.password }, 'acme');
+      assert.equal(registered.status, 201, `register failed: ${JSON.stringify(registered.problem)}`);
+
+      assert.equal((await app.login(credentials, 'globex')).status, 401);
+      const login = await app.login(credentials, 'acme');
+      const actor = await app.authenticate(login.data!.token);
+      assert.equal(actor.ok && actor.value.tenantId, 'acme');
+    },
+  },
+];
+
+// In-memory stores: the Application defaults
+export const inMemoryTenantTarget: TenantIsolationTargetFactory = async () => ({
+  app: new Application({ logger: { log: () => {} } }),
+});
+
+// SQL stores on a freshly migrated database
+export function sqlTenantTarget(connect: () => IDatabaseConnection): TenantIsolationTargetFactory {
+  return async () => {
+    const db = connect();
+    await new MigrationRunner(db).migrateToLatest();
+    const app = new Application({
+      repository: new SqlUserRepository(db),
+      unitOfWork: new SqlUnitOfWorkFactory(db),
+      auditLog: new SqlAuditLog(db),
+      outbox: new SqlOutbox(db),
+      readModels: new SqlUserReadModelStore(db),
+      credentials: new SqlCredentialStore(db),
+      sessions: new SqlSessionStore(db),
+      logger: { log: () => {} },
+    });
+
+    return { app, dispose: () => db.close() };
+  };
+}
+
+// Run the whole suite and collect a pass/fail report instead of throwing
+export function runTenantIsolationContract(
+  factory: TenantIsolationTargetFactory,
+  checks: TenantIsolationCheck[] = TENANT_ISOLATION_CONTRACT
+): Promise<ContractResult[]> {
+  return runContract(checks, factory);
+}
@@ -0,0 +1,390 @@
+/**
+ * Clean Architecture: Unit of Work (Frameworks & Drivers Layer)
+ * Transaction boundaries for use cases - In-memory staging or SQL transactions
+ */
+
+import { User, UserId } from './entities';
+import { FindUserOptions, IUserRepository, IUnitOfWorkFactory, UnitOfWork } from './use-cases';
+import {
+  IDatabaseConnection,
+  IDatabaseTransaction,
+  ISqlExecutor,
+  SqlAuditLog,
+  SqlCredentialStore,
+  SqlOutbox,
+  SqlUserRepository,
+} from './repositories';
+import { ConflictError, VersionConflictError } from './errors';
+import { UserListPage, UserListQuery, listUsersInMemory } from './user-queries';
+import {
+  AuditLogPage,
+  AuditLogQuery,
+  IAuditLog,
+  NewAuditEntry,
+  RedactedIdentity,
+} from './audit-log';
+import { IOutbox } from './outbox';
+import { UserDomainEvent } from './domain-events';
+import { ICredentialStore, LockoutPolicy, UserCredential } from './credentials';
+import { Mutex } from './mutex';
+
+function cloneUser(user: User): User {
+  return new User(
+    { value: user.id.value },
+    user.tenantId,
+    user.name,
+    user.email,
+    new Date(user.createdAt),
+    new Date(user.updatedAt),
+    user.version,
+    user.deletedAt && new Date(user.deletedAt),
+    user.erasedAt && new Date(user.erasedAt)
+  );
+}
+
+// Reverts one write a commit already made, should a later one fail
+type Undo = () => Promise<void>;
+
+// Staged Repository: Buffers writes over a base repository until flushed
+class StagedUserRepository implements IUserRepository {
+  private saved = new Map<string, User>();
+  // Version each staged user had in the base repository when first staged
+  private baseVersions = new Map<string, number>();
+  // Deleted user ids, each with the tenant it was deleted in
+  private deleted = new Map<string, string>();
+
+  constructor(private base: IUserRepository) {}
+
+  async findById(tenantId: string, id: UserId, options: FindUserOptions = {}): Promise<User | null> {
+    if (this.deleted.get(id.value) === tenantId) return null;
+
+    const staged = this.saved.get(id.value);
+    if (staged) {
+      return staged.tenantId !== tenantId || (staged.isDeleted() && !options.includeDeleted)
+        ? null
+        : cloneUser(staged);
+    }
+
+    return this.base.findById(tenantId, id, options);
+  }
+
+  async findByEmail(tenantId: string, email: string): Promise<User | null> {
+    const candidates = [...this.saved.values()].filter(
+      (user) => user.tenantId === tenantId && user.email === email && !user.isDeleted()
+    );
+
+    // Base match only counts if this unit of work has not changed or removed it
+    const fromBase = await this.base.findByEmail(tenantId, email);
+    const id = fromBase?.id.value;
+    if (fromBase && !this.saved.has(id!) && this.deleted.get(id!) !== tenantId) {
+      candidates.push(fromBase);
+    }
+
+    candidates.sort(
+      (a, b) =>
+        a.createdAt.getTime() - b.createdAt.getTime() || a.id.value.localeCompare(b.id.value)
+    );
+    return candidates.length > 0 ? cloneUser(candidates[0]) : null;
+  }
+
+  // Same version check as a real repository: every save bumps the version.
+  // An id held by another tenant is caught here when staged, or by the base when flushed.
+  async save(user: User): Promise<void> {
+    const id = user.id.value;
+    let baseVersion = this.baseVersions.get(id);
+    if (baseVersion === undefined) {
+      baseVersion = this.deleted.get(id) === user.tenantId
+        ? 0
+        : (await this.base.findById(user.tenantId, user.id, { includeDeleted: true }))?.version ?? 0;
+    }
+
+    const staged = this.saved.get(id);
+    const currentVersion = staged?.version ?? baseVersion;
+    if (user.version !== currentVersion || (staged && staged.tenantId !== user.tenantId)) {
+      throw new VersionConflictError('User', id, user.version);
+    }
+
+    this.baseVersions.set(id, baseVersion);
+    this.deleted.delete(id);
+    user.version = currentVersion + 1;
+    this.saved.set(id, cloneUser(user));
+  }
+
+  async delete(tenantId: string, id: UserId): Promise<void> {
+    if (this.saved.get(id.value)?.tenantId === tenantId) this.saved.delete(id.value);
+    this.deleted.set(id.value, tenantId);
+  }
+
+  // Over-fetch from the base by the number of staged changes, then overlay them,
+  // so the keyset page stays correct even if every staged user displaces a base row
+  async list(tenantId: string, query: UserListQuery): Promise<UserListPage> {
+    const fromBase = await this.base.list(tenantId, {
+      ...query,
+      limit: query.limit + this.saved.size + this.deleted.size,
+    });
+
+    const untouched = fromBase.users.filter(
+      (user) => !this.saved.has(user.id.value) && this.deleted.get(user.id.value) !== tenantId
+    );
+    const staged = [...this.saved.values()]
+      .filter((user) => user.tenantId === tenantId && !user.isDeleted())
+      .map(cloneUser);
+    const page = listUsersInMemory([...untouched, ...staged], query);
+
+    return { users: page.users, hasMore: page.hasMore || fromBase.hasMore };
+  }
+
+  // Commit, step 1: every staged user must still be at the version it was staged over.
+  // Only a write that bypassed the unit of work can move it, and that fails the commit up front.
+  async verify(): Promise<void> {
+    for (const user of this.saved.values()) {
+      const baseVersion = this.baseVersionOf(user);
+      const current = await this.base.findById(user.tenantId, user.id, { includeDeleted: true });
+      if ((current?.version ?? 0) !== baseVersion) {
+        throw new VersionConflictError('User', user.id.value, baseVersion);
+      }
+    }
+  }
+
+  // Commit, step 2: new users, the one write left that can fail (an id another tenant holds).
+  // Each insert that succeeds leaves an undo behind in case a later one fails.
+  async insert(undo: Undo[]): Promise<void> {
+    for (const user of this.saved.values()) {
+      if (this.baseVersionOf(user) > 0) continue;
+      await this.replay(user);
+      undo.push(() => this.base.delete(user.tenantId, user.id));
+    }
+  }
+
+  // Commit, step 3: deletes and updates, which cannot fail once verified
+  async flush(): Promise<void> {
+    for (const [id, tenantId] of this.deleted) {
+      await this.base.delete(tenantId, { value: id });
+    }
+    for (const user of this.saved.values()) {
+      if (this.baseVersionOf(user) > 0) await this.replay(user);
+    }
+  }
+
+  private baseVersionOf(user: User): number {
+    return this.baseVersions.get(user.id.value) ?? 0;
+  }
+
+  // Replay one write per staged save so the stored version ends where the entity's is
+  private async replay(user: User): Promise<void> {
+    const write = cloneUser(user);
+    write.version = this.baseVersionOf(user);
+    while (write.version < user.version) {
+      await this.base.save(write);
+    }
+  }
+}
+
+// Staged Audit Log: Entries are appended to the real log only when the unit of work commits
+class StagedAuditLog implements IAuditLog {
+  private pending: NewAuditEntry[] = [];
+  private redactions: [string, RedactedIdentity][] = [];
+
+  constructor(private base: IAuditLog) {}
+
+  async append(entry: NewAuditEntry): Promise<void> {
+    this.pending.push(entry);
+  }
+
+  // Reads see committed history only
+  query(query: AuditLogQuery): Promise<AuditLogPage> {
+    return this.base.query(query);
+  }
+
+  async redactUser(userId: string, identity: RedactedIdentity): Promise<void> {
+    this.redactions.push([userId, identity]);
+  }
+
+  // Redactions run last so they also cover entries appended in this unit of work
+  async flush(): Promise<void> {
+    for (const entry of this.pending) {
+      await this.base.append(entry);
+    }
+    for (const [userId, identity] of this.redactions) {
+      await this.base.redactUser(userId, identity);
+    }
+  }
+}
+
+// Staged Outbox: Events reach the real outbox only when the unit of work commits
+class StagedOutbox implements IOutbox {
+  private pending: UserDomainEvent[] = [];
+  private redactions: [string, RedactedIdentity][] = [];
+
+  constructor(private base: IOutbox) {}
+
+  async enqueue(events: readonly UserDomainEvent[]): Promise<void> {
+    this.pending.push(...events);
+  }
+
+  async redactUser(userId: string, identity: RedactedIdentity): Promise<void> {
+    this.redactions.push([userId, identity]);
+  }
+
+  async flush(): Promise<void> {
+    await this.base.enqueue(this.pending);
+    for (const [userId, identity] of this.redactions) {
+      await this.base.redactUser(userId, identity);
+    }
+  }
+}
+
+// Staged Credentials: Inserts, saves and deletes reach the real store only on commit
+class StagedCredentialStore implements ICredentialStore {
+  // Latest staged state per user id; null marks a deletion
+  private staged = new Map<string, UserCredential | null>();
+  // User ids whose staged credential is a new row rather than a change to one
+  private added = new Set<string>();
+
+  constructor(private base: ICredentialStore) {}
+
+  async find(tenantId: string, userId: string): Promise<UserCredential | null> {
+    if (!this.staged.has(userId)) return this.base.find(tenantId, userId);
+    const credential = this.staged.get(userId);
+    return credential && credential.tenantId === tenantId ? cloneCredential(credential) : null;
+  }
+
+  async add(credential: UserCredential): Promise<boolean> {
+    const { userId, tenantId } = credential;
+    const existing = this.staged.has(userId)
+      ? this.staged.get(userId)
+      : await this.base.find(tenantId, userId);
+    if (existing) return false;
+
+    // After a staged delete the base row still exists until commit: that one is replaced
+    if (!this.staged.has(userId)) this.added.add(userId);
+    this.staged.set(userId, cloneCredential(credential));
+    return true;
+  }
+
+  async save(credential: UserCredential): Promise<void> {
+    this.staged.set(credential.userId, cloneCredential(credential));
+  }
+
+  // Lockout bookkeeping is not part of any change the unit of work makes: straight to the base
+  recordFailure(userId: string, now: Date, policy: LockoutPolicy): Promise<void> {
+    return this.base.recordFailure(userId, now, policy);
+  }
+
+  resetFailures(userId: string, now: Date): Promise<boolean> {
+    return this.base.resetFailures(userId, now);
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.added.delete(userId);
+    this.staged.set(userId, null);
+  }
+
+  // The base refuses an insert for a user another tenant already holds a credential for
+  async insert(undo: Undo[]): Promise<void> {
+    for (const userId of this.added) {
+      if (!(await this.base.add(this.staged.get(userId)!))) {
+        throw new ConflictError('User already has a password');
+      }
+      undo.push(() => this.base.delete(userId));
+    }
+  }
+
+  async flush(): Promise<void> {
+    for (const [userId, credential] of this.staged) {
+      if (!credential) {
+        await this.base.delete(userId);
+      } else if (!this.added.has(userId)) {
+        await this.base.save(credential);
+      }
+    }
+  }
+}
+
+function cloneCredential(credential: UserCredential): UserCredential {
+  return { ...credential, roles: [...credential.roles] };
+}
+
+// In-Memory Unit of Work: Stages changes, applies them on commit, discards on rollback.
+// Units of work run one at a time, so check-then-save sequences cannot interleave.
+// A commit applies all of its changes or none: versions are checked and the inserts that can
+// still collide are written first (and undone if one does); what follows cannot fail.
+export class InMemoryUnitOfWorkFactory implements IUnitOfWorkFactory {
+  private mutex = new Mutex();
+
+  constructor(
+    private userRepository: IUserRepository,
+    private auditLog: IAuditLog,
+    private outbox: IOutbox,
+    private credentialStore: ICredentialStore
+  ) {}
+
+  async begin(): Promise<UnitOfWork> {
+    const release = await this.mutex.acquire();
+    const users = new StagedUserRepository(this.userRepository);
+    const audit = new StagedAuditLog(this.auditLog);
+    const outbox = new StagedOutbox(this.outbox);
+    const credentials = new StagedCredentialStore(this.credentialStore);
+    let finished = false;
+
+    const finish = () => {
+      if (finished) throw new Error('Unit of work already completed');
+      finished = true;
+    };
+
+    return {
+      users,
+      audit,
+      outbox,
+      credentials,
+      async commit() {
+        finish();
+        try {
+          await users.verify();
+          const undo: Undo[] = [];
+          try {
+            await users.insert(undo);
+            await credentials.insert(undo);
+          } catch (error) {
+            for (const step of undo.reverse()) await step();
+            throw error;
+          }
+          await users.flush();
+          await credentials.flush();
+          await audit.flush();
+          await outbox.flush();
+        } finally {
+          release();
+        }
+      },
+      async rollback() {
+        finish();
+        release();
+      },
+    };
+  }
+}
+
+// SQL Unit of Work: One database transaction shared by every repository in it,
+// so a change, its audit entry, its outbox messages and any credential commit together.
+// users builds the user repository on the transaction (e.g. an event-sourced one).
+export class SqlUnitOfWorkFactory implements IUnitOfWorkFactory {
+  constructor(
+    private db: IDatabaseConnection,
+    private users: (transaction: ISqlExecutor) => IUserRepository = (transaction) =>
+      new SqlUserRepository(transaction)
+  ) {}
+
+  async begin(): Promise<UnitOfWork> {
+    const transaction: IDatabaseTransaction = await this.db.begin();
+
+    return {
+      users: this.users(transaction),
+      audit: new SqlAuditLog(transaction),
+      outbox: new SqlOutbox(transaction),
+      credentials: new SqlCredentialStore(transaction),
+      commit: () => transaction.commit(),
+      rollback: () => transaction.rollback(),
+    };
+  }
+}
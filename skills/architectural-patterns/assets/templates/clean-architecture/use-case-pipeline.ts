@@ -0,0 +1,209 @@
+/**
+ * Clean Architecture: Use Case Pipeline (Application Layer)
+ * Cross-cutting concerns wrap use cases - Declared in the composition root, not in each use case
+ */
+
+import {
+  DomainError,
+  FieldError,
+  ForbiddenError,
+  Result,
+  UnauthenticatedError,
+  err,
+} from './errors';
+import { UseCase } from './use-cases';
+import { validationError } from './schema';
+
+export interface UseCaseCall<Req> {
+  readonly useCase: string;
+  readonly request: Req;
+}
+
+export type NextUseCase<Res> = () => Promise<Result<Res, DomainError>>;
+
+// Middleware: Runs around the use case; may short-circuit with an error result,
+// but never changes what a successful call returns
+export interface UseCaseMiddleware<Req = unknown> {
+  <Res>(call: UseCaseCall<Req>, next: NextUseCase<Res>): Promise<Result<Res, DomainError>>;
+}
+
+// Pipeline: An ordered middleware stack, outermost first
+export class UseCasePipeline {
+  constructor(private readonly middleware: UseCaseMiddleware[] = []) {}
+
+  // Returns a new pipeline; the original stays usable for other use cases
+  with(...middleware: UseCaseMiddleware[]): UseCasePipeline {
+    return new UseCasePipeline([...this.middleware, ...middleware]);
+  }
+
+  // Per-use-case middleware (validation, authorization) runs innermost
+  wrap<Req, Res>(
+    name: string,
+    useCase: UseCase<Req, Res>,
+    ...middleware: UseCaseMiddleware<Req>[]
+  ): UseCase<Req, Res> {
+    const stack: UseCaseMiddleware<Req>[] = [...this.middleware, ...middleware];
+
+    return {
+      execute(request: Req): Promise<Result<Res, DomainError>> {
+        const call: UseCaseCall<Req> = { useCase: name, request };
+        const run = (index: number): Promise<Result<Res, DomainError>> =>
+          index === stack.length
+            ? useCase.execute(request)
+            : stack[index](call, () => run(index + 1));
+        return run(0);
+      },
+    };
+  }
+}
+
+// Structured Logger: One JSON-serialisable entry per event
+export type LogEntry = Record<string, unknown> & { level: 'info' | 'warn' | 'error'; message: string };
+
+export interface StructuredLogger {
+  log(entry: LogEntry): void;
+}
+
+export class ConsoleJsonLogger implements StructuredLogger {
+  log(entry: LogEntry): void {
+    const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+    (entry.level === 'error' ? console.error : console.log)(line);
+  }
+}
+
+export type UseCaseOutcome = 'ok' | 'error' | 'exception';
+
+// Requests are not logged: they carry personal data
+export function logging(logger: StructuredLogger): UseCaseMiddleware {
+  return async (call, next) => {
+    const started = performance.now();
+    const durationMs = () => Math.round((performance.now() - started) * 100) / 100;
+    try {
+      const result = await next();
+      logger.log({
+        level: result.ok ? 'info' : 'warn',
+        message: 'use case completed',
+        useCase: call.useCase,
+        outcome: result.ok ? 'ok' : 'error',
+        ...(!result.ok && { errorCode: result.error.code }),
+        durationMs: durationMs(),
+      });
+      return result;
+    } catch (error) {
+      logger.log({
+        level: 'error',
+        message: 'use case threw',
+        useCase: call.useCase,
+        outcome: 'exception',
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: durationMs(),
+      });
+      throw error;
+    }
+  };
+}
+
+// Metrics port: duration of every call, tagged with its outcome
+export interface UseCaseMetrics {
+  recordDuration(useCase: string, durationMs: number, outcome: UseCaseOutcome): void;
+}
+
+export interface UseCaseStats {
+  calls: number;
+  errors: number;
+  exceptions: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+export class InMemoryUseCaseMetrics implements UseCaseMetrics {
+  private stats = new Map<string, UseCaseStats>();
+
+  recordDuration(useCase: string, durationMs: number, outcome: UseCaseOutcome): void {
+    const stats = this.stats.get(useCase) ?? { calls: 0, errors: 0, exceptions: 0, totalMs: 0, maxMs: 0 };
+    stats.calls++;
+    if (outcome === 'error') stats.errors++;
+    if (outcome === 'exception') stats.exceptions++;
+    stats.totalMs += durationMs;
+    stats.maxMs = Math.max(stats.maxMs, durationMs);
+    this.stats.set(useCase, stats);
+  }
+
+  snapshot(): Record<string, UseCaseStats> {
+    return Object.fromEntries([...this.stats].map(([name, stats]) => [name, { ...stats }]));
+  }
+}
+
+export function timing(metrics: UseCaseMetrics): UseCaseMiddleware {
+  return async (call, next) => {
+    const started = performance.now();
+    let outcome: UseCaseOutcome = 'exception';
+    try {
+      const result = await next();
+      outcome = result.ok ? 'ok' : 'error';
+      return result;
+    } finally {
+      metrics.recordDuration(call.useCase, performance.now() - started, outcome);
+    }
+  };
+}
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  isTransient?: (error: unknown) => boolean;
+}
+
+// SQLite busy/locked, Postgres serialization failure/deadlock, dropped connections
+const TRANSIENT_SQLITE_CODES = new Set([5, 6]);
+const TRANSIENT_ERROR_CODES = new Set(['40001', '40P01', 'ECONNRESET', 'ETIMEDOUT']);
+
+export function isTransientError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+  const { code, errcode } = error as { code?: unknown; errcode?: unknown };
+  return (
+    (typeof errcode === 'number' && TRANSIENT_SQLITE_CODES.has(errcode)) ||
+    (typeof code === 'string' && TRANSIENT_ERROR_CODES.has(code))
+  );
+}
+
+// Only thrown transient errors are retried; error results are expected outcomes.
+// Each attempt reruns the whole use case, so it gets a fresh unit of work.
+export function retry(options: RetryOptions = {}): UseCaseMiddleware {
+  const attempts = options.attempts ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 10;
+  const isTransient = options.isTransient ?? isTransientError;
+
+  return async (_call, next) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await next();
+      } catch (error) {
+        if (attempt >= attempts || !isTransient(error)) throw error;
+        await new Promise((resolve) => setTimeout(resolve, baseDelayMs * 2 ** (attempt - 1)));
+      }
+    }
+  };
+}
+
+// Input validation: reject before the use case runs, reporting every field at once
+export function validate<Req>(check: (request: Req) => FieldError[]): UseCaseMiddleware<Req> {
+  return async (call, next) => {
+    const errors = check(call.request);
+    return errors.length > 0 ? err(validationError(errors)) : next();
+  };
+}
+
+// Authorization: a policy either allows the call or explains the refusal
+type AuthorizationRefusal = ForbiddenError | UnauthenticatedError;
+
+export type AuthorizationCheck<Req> = (
+  call: UseCaseCall<Req>
+) => AuthorizationRefusal | null | Promise<AuthorizationRefusal | null>;
+
+export function authorize<Req>(check: AuthorizationCheck<Req>): UseCaseMiddleware<Req> {
+  return async (call, next) => {
+    const refusal = await check(call);
+    return refusal ? err(refusal) : next();
+  };
+}
@@ -3,62 +3,265 @@
  * Orchestrates entities and implements application-specific business rules
  */
 
-import { User, UserId, Email } from './entities';
+import { User, UserId, anonymisedIdentity } from './entities';
+import {
+  Result,
+  ok,
+  err,
+  ConflictError,
+  DomainError,
+  NotFoundError,
+  ValidationFailedError,
+  VersionConflictError,
+} from './errors';
+import { IDomainEventDispatcher, UserDomainEvent } from './domain-events';
+import { Clock } from './clock';
+import { Actor } from './authorization';
+import { IOutbox } from './outbox';
+import { ICredentialStore } from './credentials';
+import {
+  AuditAction,
+  AuditEntry,
+  AuditLogQuery,
+  IAuditLog,
+  UserSnapshot,
+  redactSnapshot,
+  snapshotUser,
+} from './audit-log';
+import {
+  SortOrder,
+  UserCursor,
+  UserListPage,
+  UserListQuery,
+  UserSortField,
+  userSortKey,
+} from './user-queries';
 
-// Repository Interface (abstraction, points inward)
+// Use Case: One request in, one typed Result out (the shape middleware wraps)
+export interface UseCase<Req, Res, E extends DomainError = DomainError> {
+  execute(request: Req): Promise<Result<Res, E>>;
+}
+
+// Soft-deleted users are invisible to every lookup unless a caller explicitly asks for them
+export interface FindUserOptions {
+  includeDeleted?: boolean;
+}
+
+// Repository Interface (abstraction, points inward).
+// delete removes the record for good; use cases soft-delete by saving a user with deletedAt set.
+// Reads and deletes only ever see the given tenant's users: another tenant's user is "not found".
+// Ids are unique across tenants, so save refuses an id another tenant already holds.
+// Emails are unique among a tenant's users that are not deleted: use cases check before saving,
+// and SQL storage enforces it with a unique index.
 export interface IUserRepository {
-  findById(id: UserId): Promise<User | null>;
-  findByEmail(email: string): Promise<User | null>;
+  findById(tenantId: string, id: UserId, options?: FindUserOptions): Promise<User | null>;
+  findByEmail(tenantId: string, email: string): Promise<User | null>;
   save(user: User): Promise<void>;
-  delete(id: UserId): Promise<void>;
+  delete(tenantId: string, id: UserId): Promise<void>;
+  list(tenantId: string, query: UserListQuery): Promise<UserListPage>;
+}
+
+// Unit of Work: Repositories whose changes commit or roll back together
+export interface UnitOfWork {
+  readonly users: IUserRepository;
+  readonly audit: IAuditLog;
+  readonly outbox: IOutbox;
+  readonly credentials: ICredentialStore;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+}
+
+export interface IUnitOfWorkFactory {
+  begin(): Promise<UnitOfWork>;
+}
+
+// Commit when the work succeeds; roll back on an error result or a thrown exception
+export async function runInUnitOfWork<T, E>(
+  unitOfWork: IUnitOfWorkFactory,
+  work: (uow: UnitOfWork) => Promise<Result<T, E>>
+): Promise<Result<T, E>> {
+  const uow = await unitOfWork.begin();
+  let result: Result<T, E>;
+  try {
+    result = await work(uow);
+  } catch (error) {
+    await uow.rollback();
+    throw error;
+  }
+
+  if (!result.ok) {
+    await uow.rollback();
+    return result;
+  }
+
+  try {
+    await uow.commit();
+  } catch (error) {
+    // A unit of work that already ended with the failed commit refuses this; the commit's
+    // error is the one worth reporting either way
+    await uow.rollback().catch(() => undefined);
+    throw error;
+  }
+  return result;
+}
+
+// Events collected from saved entities go to the outbox in the same unit of work, so other
+// systems hear of a change exactly when it commits; in-process subscribers run after commit
+export type CollectEvents = (user: User) => void;
+
+export async function runAndPublish<T, E>(
+  unitOfWork: IUnitOfWorkFactory,
+  dispatcher: IDomainEventDispatcher,
+  work: (uow: UnitOfWork, collect: CollectEvents) => Promise<Result<T, E>>
+): Promise<Result<T, E>> {
+  let events: UserDomainEvent[] = [];
+  const result = await runInUnitOfWork(unitOfWork, async (uow) => {
+    events = [];
+    const outcome = await work(uow, (user) => events.push(...user.pullDomainEvents()));
+    if (outcome.ok && events.length > 0) await uow.outbox.enqueue(events);
+    return outcome;
+  });
+
+  if (result.ok) {
+    await dispatcher.dispatch(events);
+  }
+  return result;
+}
+
+// Audit trail: one entry per change, appended inside the unit of work that makes it
+function appendAudit(
+  uow: UnitOfWork,
+  action: AuditAction,
+  actor: Actor | undefined,
+  before: UserSnapshot | null,
+  after: User,
+  clock: Clock
+): Promise<void> {
+  return uow.audit.append({
+    userId: after.id.value,
+    tenantId: after.tenantId,
+    actorId: actor?.id ?? null,
+    action,
+    before,
+    after: snapshotUser(after),
+    occurredAt: clock.now(),
+  });
 }
 
-// Use Case Input/Output (Data Transfer Objects)
+// Use Case Input/Output (Data Transfer Objects).
+// Requests carry the acting principal; policies are applied around the use case (see modules.ts).
+// They also name the tenant they run in, and every repository call is scoped to it.
 export interface CreateUserRequest {
   id: string;
   name: string;
   email: string;
+  tenantId: string;
+  actor?: Actor;
 }
 
 export interface CreateUserResponse {
-  success: boolean;
-  userId?: string;
-  error?: string;
+  userId: string;
+  version: number;
+}
+
+export type CreateUserError = ConflictError | ValidationFailedError;
+
+// Business rule violations raised by entities become typed errors;
+// anything else is unexpected and propagates to the caller
+function asValidationFailure(error: unknown): Result<never, ValidationFailedError> {
+  if (error instanceof ValidationFailedError) {
+    return err(error);
+  }
+  throw error;
+}
+
+// A concurrent writer won the race between our read and our save
+async function saveChecked(
+  userRepository: IUserRepository,
+  user: User
+): Promise<Result<void, VersionConflictError>> {
+  try {
+    await userRepository.save(user);
+    return ok(undefined);
+  } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return err(error);
+    }
+    throw error;
+  }
+}
+
+// Caller-supplied version (e.g. from If-Match) must match what is stored
+function checkExpectedVersion(
+  user: User,
+  expectedVersion: number | undefined
+): Result<void, VersionConflictError> {
+  if (expectedVersion !== undefined && user.version !== expectedVersion) {
+    return err(new VersionConflictError('User', user.id.value, expectedVersion));
+  }
+  return ok(undefined);
 }
 
 // Use Case: Create User
-export class CreateUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+export class CreateUserUseCase
+  implements UseCase<CreateUserRequest, CreateUserResponse, CreateUserError>
+{
+  constructor(
+    private unitOfWork: IUnitOfWorkFactory,
+    private events: IDomainEventDispatcher,
+    private clock: Clock
+  ) {}
 
-  async execute(request: CreateUserRequest): Promise<CreateUserResponse> {
-    try {
-      // Application rule: Check if user with email already exists
-      const existingUser = await this.userRepository.findByEmail(request.email);
-      if (existingUser) {
-        return {
-          success: false,
-          error: 'User with this email already exists',
-        };
-      }
+  // Check-then-save runs in one unit of work so concurrent creates cannot both pass
+  execute(request: CreateUserRequest): Promise<Result<CreateUserResponse, CreateUserError>> {
+    return runAndPublish(this.unitOfWork, this.events, (uow, collect) =>
+      createUserIn(uow, request, this.clock, collect)
+    );
+  }
+}
 
-      // Create entity with business logic
-      const userId: UserId = { value: request.id };
-      const user = new User(userId, request.name, request.email);
+// Create User inside a unit of work the caller owns (registration adds the credential to it)
+export async function createUserIn(
+  uow: UnitOfWork,
+  request: CreateUserRequest,
+  clock: Clock,
+  collect: CollectEvents
+): Promise<Result<CreateUserResponse, CreateUserError>> {
+  const registered = await registerUser(uow.users, request, clock);
+  if (!registered.ok) return registered;
 
-      // Persist entity
-      await this.userRepository.save(user);
+  const user = registered.value;
+  await appendAudit(uow, 'user.created', request.actor, null, user, clock);
+  collect(user);
+  return ok({ userId: user.id.value, version: user.version });
+}
 
-      return {
-        success: true,
-        userId: user.id.value,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-    }
+// Registration rules shared by CreateUser and bulk import (including its dry run)
+export async function registerUser(
+  userRepository: IUserRepository,
+  request: CreateUserRequest,
+  clock: Clock
+): Promise<Result<User, CreateUserError>> {
+  // Application rule: Emails are unique within a tenant
+  const existingUser = await userRepository.findByEmail(request.tenantId, request.email);
+  if (existingUser) {
+    return err(new ConflictError('User with this email already exists'));
+  }
+
+  // Create entity with business logic
+  let user: User;
+  try {
+    const userId: UserId = { value: request.id };
+    user = User.register(userId, request.tenantId, request.name, request.email, clock);
+  } catch (error) {
+    return asValidationFailure(error);
   }
+
+  // Persist entity (an id that already exists surfaces as a conflict)
+  const saved = await saveChecked(userRepository, user);
+  if (!saved.ok) return saved;
+
+  return ok(user);
 }
 
 // Use Case: Update User
@@ -66,97 +269,469 @@ export interface UpdateUserRequest {
   userId: string;
   name: string;
   email: string;
+  expectedVersion?: number;
+  tenantId: string;
+  actor?: Actor;
 }
 
-export class UpdateUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+export interface UpdateUserResponse {
+  userId: string;
+  version: number;
+}
 
-  async execute(request: UpdateUserRequest): Promise<CreateUserResponse> {
-    try {
-      // Fetch entity
-      const user = await this.userRepository.findById({
-        value: request.userId,
-      });
-
-      if (!user) {
-        return {
-          success: false,
-          error: 'User not found',
-        };
-      }
+export type UpdateUserError =
+  | NotFoundError
+  | ConflictError
+  | VersionConflictError
+  | ValidationFailedError;
+
+export class UpdateUserUseCase
+  implements UseCase<UpdateUserRequest, UpdateUserResponse, UpdateUserError>
+{
+  constructor(
+    private unitOfWork: IUnitOfWorkFactory,
+    private events: IDomainEventDispatcher,
+    private clock: Clock
+  ) {}
+
+  execute(request: UpdateUserRequest): Promise<Result<UpdateUserResponse, UpdateUserError>> {
+    return runAndPublish(this.unitOfWork, this.events, (uow, collect) =>
+      this.updateUser(uow, request, collect)
+    );
+  }
+
+  private async updateUser(
+    uow: UnitOfWork,
+    request: UpdateUserRequest,
+    collect: CollectEvents
+  ): Promise<Result<UpdateUserResponse, UpdateUserError>> {
+    // Fetch entity
+    const user = await uow.users.findById(request.tenantId, {
+      value: request.userId,
+    });
 
-      // Apply business logic through entity
-      user.updateProfile(request.name, request.email);
+    if (!user) {
+      return err(new NotFoundError('User', request.userId));
+    }
 
-      // Persist changes
-      await this.userRepository.save(user);
+    const versionCheck = checkExpectedVersion(user, request.expectedVersion);
+    if (!versionCheck.ok) return versionCheck;
 
-      return {
-        success: true,
-        userId: user.id.value,
-      };
+    // Apply business logic through entity
+    const before = snapshotUser(user);
+    try {
+      user.updateProfile(request.name, request.email, this.clock);
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+      return asValidationFailure(error);
+    }
+
+    // Application rule: Emails are unique within a tenant
+    const holder = await uow.users.findByEmail(request.tenantId, user.email);
+    if (holder && holder.id.value !== user.id.value) {
+      return err(new ConflictError('User with this email already exists'));
     }
+
+    // Persist changes
+    const saved = await saveChecked(uow.users, user);
+    if (!saved.ok) return saved;
+    await appendAudit(uow, 'user.updated', request.actor, before, user, this.clock);
+    collect(user);
+
+    return ok({ userId: user.id.value, version: user.version });
   }
 }
 
 // Use Case: Delete User
-export class DeleteUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+export interface DeleteUserRequest {
+  userId: string;
+  expectedVersion?: number;
+  tenantId: string;
+  actor?: Actor;
+}
 
-  async execute(userId: string): Promise<CreateUserResponse> {
-    try {
-      const user = await this.userRepository.findById({ value: userId });
+export type DeleteUserError = NotFoundError | VersionConflictError;
 
-      if (!user) {
-        return {
-          success: false,
-          error: 'User not found',
-        };
-      }
+// Soft delete: the user disappears from queries but stays restorable (see RestoreUserUseCase)
+export class DeleteUserUseCase implements UseCase<DeleteUserRequest, void, DeleteUserError> {
+  constructor(
+    private unitOfWork: IUnitOfWorkFactory,
+    private events: IDomainEventDispatcher,
+    private clock: Clock
+  ) {}
 
-      await this.userRepository.delete({ value: userId });
+  execute(request: DeleteUserRequest): Promise<Result<void, DeleteUserError>> {
+    return runAndPublish(this.unitOfWork, this.events, (uow, collect) =>
+      this.deleteUser(uow, request, collect)
+    );
+  }
 
-      return {
-        success: true,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+  private async deleteUser(
+    uow: UnitOfWork,
+    { userId, tenantId, expectedVersion, actor }: DeleteUserRequest,
+    collect: CollectEvents
+  ): Promise<Result<void, DeleteUserError>> {
+    const user = await uow.users.findById(tenantId, { value: userId });
+
+    if (!user) {
+      return err(new NotFoundError('User', userId));
+    }
+
+    const versionCheck = checkExpectedVersion(user, expectedVersion);
+    if (!versionCheck.ok) return versionCheck;
+
+    const before = snapshotUser(user);
+    user.markDeleted(this.clock);
+    const saved = await saveChecked(uow.users, user);
+    if (!saved.ok) return saved;
+    await appendAudit(uow, 'user.deleted', actor, before, user, this.clock);
+    collect(user);
+
+    return ok(undefined);
+  }
+}
+
+// Use Case: Restore User
+export interface RestoreUserRequest {
+  userId: string;
+  expectedVersion?: number;
+  tenantId: string;
+  actor?: Actor;
+}
+
+export interface RestoreUserResponse {
+  userId: string;
+  version: number;
+}
+
+export type RestoreUserError = NotFoundError | ConflictError | VersionConflictError;
+
+export class RestoreUserUseCase
+  implements UseCase<RestoreUserRequest, RestoreUserResponse, RestoreUserError>
+{
+  constructor(
+    private unitOfWork: IUnitOfWorkFactory,
+    private events: IDomainEventDispatcher,
+    private clock: Clock
+  ) {}
+
+  execute(request: RestoreUserRequest): Promise<Result<RestoreUserResponse, RestoreUserError>> {
+    return runAndPublish(this.unitOfWork, this.events, (uow, collect) =>
+      this.restoreUser(uow, request, collect)
+    );
+  }
+
+  private async restoreUser(
+    uow: UnitOfWork,
+    { userId, tenantId, expectedVersion, actor }: RestoreUserRequest,
+    collect: CollectEvents
+  ): Promise<Result<RestoreUserResponse, RestoreUserError>> {
+    const user = await uow.users.findById(tenantId, { value: userId }, { includeDeleted: true });
+
+    // Only soft-deleted users can be restored; an active one is "not found" among deleted users
+    if (!user || !user.isDeleted()) {
+      return err(new NotFoundError('Deleted user', userId));
+    }
+
+    const versionCheck = checkExpectedVersion(user, expectedVersion);
+    if (!versionCheck.ok) return versionCheck;
+
+    if (user.isErased()) {
+      return err(new ConflictError('Erased users cannot be restored'));
+    }
+
+    // The email may have been taken by someone else while this user was deleted
+    const holder = await uow.users.findByEmail(tenantId, user.email);
+    if (holder) {
+      return err(new ConflictError('Another user now has this email'));
+    }
+
+    const before = snapshotUser(user);
+    user.restore(this.clock);
+    const saved = await saveChecked(uow.users, user);
+    if (!saved.ok) return saved;
+    await appendAudit(uow, 'user.restored', actor, before, user, this.clock);
+    collect(user);
+
+    return ok({ userId: user.id.value, version: user.version });
+  }
+}
+
+// Use Case: Erase User (right to erasure).
+// Name and email are anonymised on the user and in every audit snapshot of them;
+// the id, timestamps and the audit entries themselves stay, so references and evidence survive.
+export interface EraseUserRequest {
+  userId: string;
+  expectedVersion?: number;
+  tenantId: string;
+  actor?: Actor;
+}
+
+export interface EraseUserResponse {
+  userId: string;
+  version: number;
+}
+
+export type EraseUserError = NotFoundError | VersionConflictError;
+
+export class EraseUserUseCase implements UseCase<EraseUserRequest, EraseUserResponse, EraseUserError> {
+  constructor(
+    private unitOfWork: IUnitOfWorkFactory,
+    private events: IDomainEventDispatcher,
+    private clock: Clock
+  ) {}
+
+  execute(request: EraseUserRequest): Promise<Result<EraseUserResponse, EraseUserError>> {
+    return runAndPublish(this.unitOfWork, this.events, (uow, collect) =>
+      this.eraseUser(uow, request, collect)
+    );
+  }
+
+  private async eraseUser(
+    uow: UnitOfWork,
+    { userId, tenantId, expectedVersion, actor }: EraseUserRequest,
+    collect: CollectEvents
+  ): Promise<Result<EraseUserResponse, EraseUserError>> {
+    const user = await uow.users.findById(tenantId, { value: userId }, { includeDeleted: true });
+
+    if (!user) {
+      return err(new NotFoundError('User', userId));
+    }
+
+    const versionCheck = checkExpectedVersion(user, expectedVersion);
+    if (!versionCheck.ok) return versionCheck;
+
+    // Erasing twice is harmless: nothing personal is left to remove
+    if (user.isErased()) {
+      return ok({ userId, version: user.version });
+    }
+
+    const anonymised = anonymisedIdentity(user.id);
+    const before = redactSnapshot(snapshotUser(user), anonymised);
+    user.erase(this.clock);
+    const saved = await saveChecked(uow.users, user);
+    if (!saved.ok) return saved;
+
+    await uow.audit.redactUser(userId, anonymised);
+    await uow.outbox.redactUser(userId, anonymised);
+    await appendAudit(uow, 'user.erased', actor, before, user, this.clock);
+    collect(user);
+
+    return ok({ userId, version: user.version });
+  }
+}
+
+// Use Case: Export User Data (subject access request)
+export interface ExportUserDataRequest {
+  userId: string;
+  tenantId: string;
+  actor?: Actor;
+}
+
+// Changes to the subject's own record, with before/after values
+export interface ExportedAuditEntry {
+  id: string;
+  action: AuditAction;
+  actorId: string | null;
+  before: UserSnapshot | null;
+  after: UserSnapshot | null;
+  occurredAt: string;
+}
+
+// Changes the subject made to other users: what and when, never the other users' data
+export interface ExportedActivity {
+  id: string;
+  action: AuditAction;
+  userId: string;
+  occurredAt: string;
+}
+
+// Machine-readable bundle: plain JSON, dates as ISO-8601, versioned for future additions
+export interface UserDataExport {
+  format: 'user-data-export';
+  formatVersion: 1;
+  exportedAt: string;
+  subject: UserSnapshot & { erasedAt: string | null };
+  history: ExportedAuditEntry[];
+  activity: ExportedActivity[];
+}
+
+export type ExportUserDataError = NotFoundError;
+
+const EXPORT_AUDIT_PAGE_SIZE = 200;
+
+export class ExportUserDataUseCase
+  implements UseCase<ExportUserDataRequest, UserDataExport, ExportUserDataError>
+{
+  constructor(
+    private userRepository: IUserRepository,
+    private auditLog: IAuditLog,
+    private clock: Clock
+  ) {}
+
+  // Deleted users are included: the obligation covers everything still held
+  async execute({
+    userId,
+    tenantId,
+  }: ExportUserDataRequest): Promise<Result<UserDataExport, ExportUserDataError>> {
+    const user = await this.userRepository.findById(tenantId, { value: userId }, { includeDeleted: true });
+
+    if (!user) {
+      return err(new NotFoundError('User', userId));
+    }
+
+    const history = await this.allEntries({ tenantId, userId });
+    const activity = (await this.allEntries({ tenantId, actorId: userId })).filter(
+      (entry) => entry.userId !== userId
+    );
+
+    return ok({
+      format: 'user-data-export',
+      formatVersion: 1,
+      exportedAt: this.clock.now().toISOString(),
+      subject: { ...snapshotUser(user), erasedAt: user.erasedAt?.toISOString() ?? null },
+      history: history.map((entry) => ({
+        id: entry.id,
+        action: entry.action,
+        actorId: entry.actorId,
+        before: entry.before,
+        after: entry.after,
+        occurredAt: entry.occurredAt.toISOString(),
+      })),
+      activity: activity.map((entry) => ({
+        id: entry.id,
+        action: entry.action,
+        userId: entry.userId,
+        occurredAt: entry.occurredAt.toISOString(),
+      })),
+    });
+  }
+
+  private async allEntries(
+    filter: Pick<AuditLogQuery, 'tenantId' | 'userId' | 'actorId'>
+  ): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    let after: string | undefined;
+    for (;;) {
+      const page = await this.auditLog.query({ ...filter, limit: EXPORT_AUDIT_PAGE_SIZE, after });
+      entries.push(...page.entries);
+
+      const last = page.entries[page.entries.length - 1];
+      if (!page.hasMore || !last) return entries;
+      after = last.id;
     }
   }
 }
 
 // Use Case: Get User
-export class GetUserUseCase {
+export interface GetUserRequest {
+  userId: string;
+  tenantId: string;
+  actor?: Actor;
+}
+
+export type GetUserError = NotFoundError;
+
+export class GetUserUseCase implements UseCase<GetUserRequest, User, GetUserError> {
   constructor(private userRepository: IUserRepository) {}
 
-  async execute(userId: string): Promise<{ success: boolean; user?: User; error?: string }> {
-    try {
-      const user = await this.userRepository.findById({ value: userId });
+  async execute({ userId, tenantId }: GetUserRequest): Promise<Result<User, GetUserError>> {
+    const user = await this.userRepository.findById(tenantId, { value: userId });
 
-      if (!user) {
-        return {
-          success: false,
-          error: 'User not found',
-        };
-      }
+    if (!user) {
+      return err(new NotFoundError('User', userId));
+    }
 
-      return {
-        success: true,
-        user,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+    return ok(user);
+  }
+}
+
+// Use Case: List Users (cursor-paginated)
+export interface ListUsersRequest {
+  limit?: number;
+  cursor?: string;
+  sortBy?: UserSortField;
+  sortOrder?: SortOrder;
+  emailDomain?: string;
+  nameContains?: string;
+  tenantId: string;
+  actor?: Actor;
+}
+
+export interface ListUsersResponse {
+  users: User[];
+  nextCursor: string | null;
+}
+
+export type ListUsersError = ValidationFailedError;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Opaque to clients; remembers the sort so a cursor cannot be replayed against another ordering
+interface EncodedCursor extends UserCursor {
+  sortBy: UserSortField;
+  sortOrder: SortOrder;
+}
+
+export class ListUsersUseCase implements UseCase<ListUsersRequest, ListUsersResponse, ListUsersError> {
+  constructor(private userRepository: IUserRepository) {}
+
+  async execute(request: ListUsersRequest): Promise<Result<ListUsersResponse, ListUsersError>> {
+    const limit = request.limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return err(new ValidationFailedError(`Limit must be between 1 and ${MAX_PAGE_SIZE}`, 'limit'));
     }
+
+    const sortBy = request.sortBy ?? 'createdAt';
+    const sortOrder = request.sortOrder ?? 'asc';
+
+    let after: UserCursor | undefined;
+    if (request.cursor !== undefined) {
+      const decoded = decodeCursor(request.cursor);
+      if (!decoded || decoded.sortBy !== sortBy || decoded.sortOrder !== sortOrder) {
+        return err(new ValidationFailedError('Invalid cursor', 'cursor'));
+      }
+      after = { key: decoded.key, id: decoded.id };
+    }
+
+    const page = await this.userRepository.list(request.tenantId, {
+      limit,
+      sortBy,
+      sortOrder,
+      after,
+      emailDomain: request.emailDomain || undefined,
+      nameContains: request.nameContains || undefined,
+    });
+
+    const last = page.users[page.users.length - 1];
+    const nextCursor =
+      page.hasMore && last
+        ? encodeCursor({
+            sortBy,
+            sortOrder,
+            key: userSortKey(last, sortBy),
+            id: last.id.value,
+          })
+        : null;
+
+    return ok({ users: page.users, nextCursor });
+  }
+}
+
+function encodeCursor(cursor: EncodedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): EncodedCursor | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const valid =
+      (value.sortBy === 'name' || value.sortBy === 'createdAt') &&
+      (value.sortOrder === 'asc' || value.sortOrder === 'desc') &&
+      typeof value.key === 'string' &&
+      typeof value.id === 'string';
+    return valid ? value : null;
+  } catch {
+    return null;
   }
 }
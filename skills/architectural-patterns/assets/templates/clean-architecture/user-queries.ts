@@ -0,0 +1,81 @@
+/**
+ * Clean Architecture: User Listing Query Model
+ * Filter, sort and keyset-cursor semantics shared by every repository adapter
+ */
+
+import { User } from './entities';
+
+export type UserSortField = 'name' | 'createdAt';
+export type SortOrder = 'asc' | 'desc';
+
+// Keyset cursor: sort value and id of the last row on the previous page
+export interface UserCursor {
+  key: string;
+  id: string;
+}
+
+export interface UserListQuery {
+  limit: number;
+  sortBy: UserSortField;
+  sortOrder: SortOrder;
+  after?: UserCursor;
+  emailDomain?: string;
+  nameContains?: string;
+}
+
+export interface UserListPage {
+  users: User[];
+  hasMore: boolean;
+}
+
+// Sort keys are strings so both adapters compare them the same way
+// (createdAt as ISO-8601, which sorts chronologically)
+export function userSortKey(user: User, sortBy: UserSortField): string {
+  return sortBy === 'name' ? user.name : user.createdAt.toISOString();
+}
+
+// Email domains compare case-insensitively, name search is a case-insensitive substring
+export function matchesUserFilter(user: User, query: UserListQuery): boolean {
+  if (query.emailDomain && !user.email.toLowerCase().endsWith(`@${query.emailDomain.toLowerCase()}`)) {
+    return false;
+  }
+  if (query.nameContains && !user.name.toLowerCase().includes(query.nameContains.toLowerCase())) {
+    return false;
+  }
+  return true;
+}
+
+// Order by sort key, then id as a tie-breaker, both in the requested direction
+export function compareUsersForList(a: User, b: User, query: UserListQuery): number {
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  return direction * compareKeys(
+    { key: userSortKey(a, query.sortBy), id: a.id.value },
+    { key: userSortKey(b, query.sortBy), id: b.id.value }
+  );
+}
+
+export function isAfterCursor(user: User, query: UserListQuery): boolean {
+  if (!query.after) return true;
+
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  const position = compareKeys({ key: userSortKey(user, query.sortBy), id: user.id.value }, query.after);
+  return direction * position > 0;
+}
+
+// Reference implementation for adapters that hold users in memory
+export function listUsersInMemory(users: Iterable<User>, query: UserListQuery): UserListPage {
+  const matching = [...users]
+    .filter((user) => matchesUserFilter(user, query) && isAfterCursor(user, query))
+    .sort((a, b) => compareUsersForList(a, b, query));
+
+  return {
+    users: matching.slice(0, query.limit),
+    hasMore: matching.length > query.limit,
+  };
+}
+
+function compareKeys(a: UserCursor, b: UserCursor): number {
+  if (a.key !== b.key) return a.key < b.key ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
@@ -0,0 +1,416 @@
+/**
+ * Clean Architecture: Route Registry (Interface Adapters Layer)
+ * One table of user routes - Wires the HTTP adapter and generates the OpenAPI document
+ */
+
+import {
+  UserController,
+  HttpResponse,
+  RequestContext,
+  AUDIT_LOG_RESPONSE_SCHEMA,
+  CHANGE_PASSWORD_REQUEST_SCHEMA,
+  CREATE_USER_REQUEST_SCHEMA,
+  LOGIN_REQUEST_SCHEMA,
+  RECENTLY_UPDATED_USERS_RESPONSE_SCHEMA,
+  REGISTER_REQUEST_SCHEMA,
+  SESSION_RESPONSE_SCHEMA,
+  SESSION_TOKEN_REQUEST_SCHEMA,
+  SIGNUPS_PER_DAY_RESPONSE_SCHEMA,
+  USERS_BY_DOMAIN_RESPONSE_SCHEMA,
+  USER_DATA_EXPORT_SCHEMA,
+  USER_ID_RESPONSE_SCHEMA,
+  USER_LIST_RESPONSE_SCHEMA,
+  USER_RESPONSE_SCHEMA,
+} from './controllers';
+import { ProblemTypeName } from './problems';
+import { AUDIT_ACTIONS } from './audit-log';
+import { ObjectSchema, Schema } from './schema';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// What a transport hands to a route once it has parsed the request
+export interface RouteContext {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+  context: RequestContext;
+}
+
+export interface ParameterDefinition {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required?: boolean;
+  description?: string;
+  schema: Schema;
+}
+
+export interface ResponseDefinition {
+  description: string;
+  schema?: Schema;
+  headers?: Record<string, { description: string; schema: Schema }>;
+}
+
+export interface RouteDefinition {
+  method: HttpMethod;
+  // Router syntax: "/users/:id"
+  path: string;
+  operationId: string;
+  summary: string;
+  parameters?: ParameterDefinition[];
+  requestBody?: ObjectSchema;
+  // Success responses by status code
+  responses: Record<number, ResponseDefinition>;
+  // Failures the controller can return; transport failures are added by the document builder
+  problems: ProblemTypeName[];
+  // Reachable before signing in: a stale bearer token is ignored here rather than refused
+  public?: boolean;
+  handle(controller: UserController, route: RouteContext): Promise<HttpResponse<unknown>>;
+}
+
+const USER_ID_PARAMETER: ParameterDefinition = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' },
+};
+
+const IF_MATCH_PARAMETER: ParameterDefinition = {
+  name: 'If-Match',
+  in: 'header',
+  required: true,
+  description: 'ETag from a previous read, or * to skip the version check',
+  schema: { type: 'string', example: '"3"' },
+};
+
+const REPORT_LIMIT_PARAMETER: ParameterDefinition = {
+  name: 'limit',
+  in: 'query',
+  schema: { type: 'integer', minimum: 1, maximum: 100 },
+};
+
+const ETAG_HEADER = {
+  ETag: { description: 'Current entity version, for If-Match', schema: { type: 'string' } },
+} satisfies ResponseDefinition['headers'];
+
+const NO_STORE_HEADER = {
+  'Cache-Control': { description: 'no-store: the body holds a credential', schema: { type: 'string' } },
+} satisfies ResponseDefinition['headers'];
+
+function header(route: RouteContext, name: string): string | undefined {
+  const value = route.headers[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+// Routes: Map HTTP verbs and paths onto controller methods
+export const USER_ROUTES: RouteDefinition[] = [
+  {
+    method: 'GET',
+    path: '/users',
+    operationId: 'listUsers',
+    summary: 'List users, one keyset-paginated page at a time',
+    parameters: [
+      { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100 } },
+      {
+        name: 'cursor',
+        in: 'query',
+        description: 'Taken from links.next of the previous page',
+        schema: { type: 'string' },
+      },
+      {
+        name: 'sort',
+        in: 'query',
+        description: 'Prefix with - for descending order',
+        schema: { type: 'string', enum: ['name', '-name', 'createdAt', '-createdAt'] },
+      },
+      { name: 'emailDomain', in: 'query', schema: { type: 'string', example: 'example.com' } },
+      { name: 'nameContains', in: 'query', schema: { type: 'string' } },
+    ],
+    responses: {
+      200: {
+        description: 'A page of users',
+        schema: USER_LIST_RESPONSE_SCHEMA,
+        headers: {
+          Link: { description: 'rel="next" link, absent on the last page', schema: { type: 'string' } },
+        },
+      },
+    },
+    problems: ['forbidden', 'validationFailed'],
+    handle: (controller, { query, context }) => controller.handleListUsers(query, context),
+  },
+  {
+    method: 'POST',
+    path: '/users',
+    operationId: 'createUser',
+    summary: 'Register a user',
+    parameters: [
+      {
+        name: 'Idempotency-Key',
+        in: 'header',
+        description: 'Retries with the same key and payload replay the first response for 24 hours',
+        schema: { type: 'string', maxLength: 255, example: '8e03978e-40d5-43e8-bc93-6894a57f9324' },
+      },
+    ],
+    requestBody: CREATE_USER_REQUEST_SCHEMA,
+    responses: {
+      201: {
+        description: 'User created',
+        schema: USER_ID_RESPONSE_SCHEMA,
+        headers: {
+          ...ETAG_HEADER,
+          'Idempotent-Replayed': {
+            description: 'true when this is a stored response replayed for a retry',
+            schema: { type: 'string' },
+          },
+        },
+      },
+    },
+    problems: ['forbidden', 'conflict', 'idempotencyKeyInUse', 'validationFailed', 'idempotencyKeyReused'],
+    handle: (controller, route) =>
+      controller.handleCreateUser(route.body, header(route, 'idempotency-key'), route.context),
+  },
+  {
+    method: 'GET',
+    path: '/users/:id',
+    operationId: 'getUser',
+    summary: 'Fetch one user',
+    parameters: [USER_ID_PARAMETER],
+    responses: {
+      200: { description: 'The user', schema: USER_RESPONSE_SCHEMA, headers: ETAG_HEADER },
+    },
+    problems: ['forbidden', 'notFound'],
+    handle: (controller, { params, context }) => controller.handleGetUser(params.id, context),
+  },
+  {
+    method: 'PUT',
+    path: '/users/:id',
+    operationId: 'updateUser',
+    summary: "Replace a user's profile",
+    parameters: [USER_ID_PARAMETER, IF_MATCH_PARAMETER],
+    requestBody: CREATE_USER_REQUEST_SCHEMA,
+    responses: {
+      200: { description: 'User updated', schema: USER_ID_RESPONSE_SCHEMA, headers: ETAG_HEADER },
+    },
+    problems: [
+      'forbidden',
+      'notFound',
+      'conflict',
+      'versionMismatch',
+      'validationFailed',
+      'preconditionRequired',
+    ],
+    handle: (controller, route) =>
+      controller.handleUpdateUser(route.params.id, route.body, header(route, 'if-match'), route.context),
+  },
+  {
+    method: 'DELETE',
+    path: '/users/:id',
+    operationId: 'deleteUser',
+    summary: 'Delete a user (soft delete: hidden from queries, restorable)',
+    parameters: [USER_ID_PARAMETER, IF_MATCH_PARAMETER],
+    responses: {
+      200: { description: 'User deleted (empty body)' },
+    },
+    problems: ['forbidden', 'notFound', 'versionMismatch', 'preconditionRequired'],
+    handle: (controller, route) =>
+      controller.handleDeleteUser(route.params.id, header(route, 'if-match'), route.context),
+  },
+  {
+    method: 'POST',
+    path: '/users/:id/restore',
+    operationId: 'restoreUser',
+    summary: 'Restore a deleted user',
+    parameters: [USER_ID_PARAMETER, IF_MATCH_PARAMETER],
+    responses: {
+      200: { description: 'User restored', schema: USER_ID_RESPONSE_SCHEMA, headers: ETAG_HEADER },
+    },
+    problems: ['forbidden', 'notFound', 'conflict', 'versionMismatch', 'preconditionRequired'],
+    handle: (controller, route) =>
+      controller.handleRestoreUser(route.params.id, header(route, 'if-match'), route.context),
+  },
+  {
+    method: 'POST',
+    path: '/users/:id/erase',
+    operationId: 'eraseUser',
+    summary: "Erase a user's personal data (right to erasure); the anonymised record and audit trail remain",
+    parameters: [USER_ID_PARAMETER, IF_MATCH_PARAMETER],
+    responses: {
+      200: { description: 'User erased', schema: USER_ID_RESPONSE_SCHEMA, headers: ETAG_HEADER },
+    },
+    problems: ['forbidden', 'notFound', 'versionMismatch', 'preconditionRequired'],
+    handle: (controller, route) =>
+      controller.handleEraseUser(route.params.id, header(route, 'if-match'), route.context),
+  },
+  {
+    method: 'GET',
+    path: '/users/:id/data-export',
+    operationId: 'exportUserData',
+    summary: 'Everything held about a user, as one machine-readable bundle',
+    parameters: [USER_ID_PARAMETER],
+    responses: {
+      200: {
+        description: 'The data export bundle',
+        schema: USER_DATA_EXPORT_SCHEMA,
+        headers: {
+          'Content-Disposition': { description: 'Suggested file name', schema: { type: 'string' } },
+        },
+      },
+    },
+    problems: ['forbidden', 'notFound'],
+    handle: (controller, { params, context }) => controller.handleExportUserData(params.id, context),
+  },
+  {
+    method: 'GET',
+    path: '/audit-log',
+    operationId: 'queryAuditLog',
+    summary: 'Who changed which user and how, oldest first',
+    parameters: [
+      { name: 'userId', in: 'query', schema: { type: 'string' } },
+      { name: 'actorId', in: 'query', schema: { type: 'string' } },
+      { name: 'action', in: 'query', schema: { type: 'string', enum: AUDIT_ACTIONS } },
+      {
+        name: 'from',
+        in: 'query',
+        description: 'Inclusive lower bound on occurredAt',
+        schema: { type: 'string', format: 'date-time' },
+      },
+      {
+        name: 'to',
+        in: 'query',
+        description: 'Exclusive upper bound on occurredAt',
+        schema: { type: 'string', format: 'date-time' },
+      },
+      { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 200 } },
+      {
+        name: 'cursor',
+        in: 'query',
+        description: 'Taken from links.next of the previous page',
+        schema: { type: 'string' },
+      },
+    ],
+    responses: {
+      200: {
+        description: 'A page of audit entries',
+        schema: AUDIT_LOG_RESPONSE_SCHEMA,
+        headers: {
+          Link: { description: 'rel="next" link, absent on the last page', schema: { type: 'string' } },
+        },
+      },
+    },
+    problems: ['forbidden', 'validationFailed'],
+    handle: (controller, { query, context }) => controller.handleQueryAuditLog(query, context),
+  },
+  {
+    method: 'GET',
+    path: '/reports/users-by-domain',
+    operationId: 'usersByDomain',
+    summary: 'Active users per email domain, from the read models',
+    parameters: [REPORT_LIMIT_PARAMETER],
+    responses: { 200: { description: 'Domains, largest first', schema: USERS_BY_DOMAIN_RESPONSE_SCHEMA } },
+    problems: ['forbidden', 'validationFailed'],
+    handle: (controller, { query, context }) => controller.handleUsersByDomain(query, context),
+  },
+  {
+    method: 'GET',
+    path: '/reports/signups-per-day',
+    operationId: 'signupsPerDay',
+    summary: 'Registrations per UTC day, including users deleted or erased since',
+    parameters: [
+      {
+        name: 'from',
+        in: 'query',
+        description: 'First day of the range; defaults to 29 days before to',
+        schema: { type: 'string', format: 'date' },
+      },
+      {
+        name: 'to',
+        in: 'query',
+        description: 'Last day of the range (inclusive); defaults to today',
+        schema: { type: 'string', format: 'date' },
+      },
+    ],
+    responses: {
+      200: { description: 'One entry per day, at most 366', schema: SIGNUPS_PER_DAY_RESPONSE_SCHEMA },
+    },
+    problems: ['forbidden', 'validationFailed'],
+    handle: (controller, { query, context }) => controller.handleSignupsPerDay(query, context),
+  },
+  {
+    method: 'GET',
+    path: '/reports/recently-updated-users',
+    operationId: 'recentlyUpdatedUsers',
+    summary: 'Active users, most recently changed first, from the read models',
+    parameters: [REPORT_LIMIT_PARAMETER],
+    responses: {
+      200: { description: 'Most recently updated users', schema: RECENTLY_UPDATED_USERS_RESPONSE_SCHEMA },
+    },
+    problems: ['forbidden', 'validationFailed'],
+    handle: (controller, { query, context }) => controller.handleRecentlyUpdatedUsers(query, context),
+  },
+  {
+    method: 'POST',
+    path: '/auth/register',
+    operationId: 'register',
+    summary: 'Sign up with a password; the tenant is named by X-Tenant-Id',
+    requestBody: REGISTER_REQUEST_SCHEMA,
+    responses: {
+      201: { description: 'User registered', schema: USER_ID_RESPONSE_SCHEMA, headers: ETAG_HEADER },
+    },
+    problems: ['conflict', 'validationFailed'],
+    public: true,
+    handle: (controller, { body, context }) => controller.handleRegister(body, context),
+  },
+  {
+    method: 'POST',
+    path: '/auth/login',
+    operationId: 'login',
+    summary: 'Exchange email and password for a bearer token; repeated failures lock the account',
+    requestBody: LOGIN_REQUEST_SCHEMA,
+    responses: {
+      200: { description: 'Signed in', schema: SESSION_RESPONSE_SCHEMA, headers: NO_STORE_HEADER },
+    },
+    problems: ['unauthorized', 'validationFailed'],
+    public: true,
+    handle: (controller, { body, context }) => controller.handleLogin(body, context),
+  },
+  {
+    method: 'POST',
+    path: '/auth/refresh',
+    operationId: 'refreshSession',
+    summary: 'Trade a token for a new one; the old token stops working',
+    requestBody: SESSION_TOKEN_REQUEST_SCHEMA,
+    responses: {
+      200: { description: 'Session rotated', schema: SESSION_RESPONSE_SCHEMA, headers: NO_STORE_HEADER },
+    },
+    problems: ['unauthorized', 'validationFailed'],
+    public: true,
+    handle: (controller, { body, context }) => controller.handleRefreshSession(body, context),
+  },
+  {
+    method: 'POST',
+    path: '/auth/logout',
+    operationId: 'logout',
+    summary: 'End the session a token belongs to',
+    requestBody: SESSION_TOKEN_REQUEST_SCHEMA,
+    responses: {
+      200: { description: 'Signed out (empty body), also when the token was no longer valid' },
+    },
+    problems: ['validationFailed'],
+    public: true,
+    handle: (controller, { body, context }) => controller.handleLogout(body, context),
+  },
+  {
+    method: 'PUT',
+    path: '/users/:id/password',
+    operationId: 'changePassword',
+    summary: 'Change your own password; every other session is signed out',
+    parameters: [USER_ID_PARAMETER],
+    requestBody: CHANGE_PASSWORD_REQUEST_SCHEMA,
+    responses: {
+      200: { description: 'Password changed', schema: SESSION_RESPONSE_SCHEMA, headers: NO_STORE_HEADER },
+    },
+    problems: ['unauthorized', 'forbidden', 'validationFailed'],
+    handle: (controller, { params, body, context }) =>
+      controller.handleChangePassword(params.id, body, context),
+  },
+];